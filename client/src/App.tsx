@@ -1,53 +1,80 @@
-import { useCallback, useEffect, useMemo, useState } from "react";
-
-type InstanceStatus = {
-  available: boolean;
-  alreadyAdded: boolean;
-  lookup?: Record<string, unknown>;
-  existingId?: number;
-  monitored?: boolean;
-  hasFile?: boolean;
-};
-
-type SearchItem = {
-  key: string;
-  title: string;
-  author: string;
-  isbn13?: string;
-  foreignBookId?: string;
-  goodreadsId?: string;
-  ebook: InstanceStatus;
-  audio: InstanceStatus;
-};
-
-type InstanceSettings = {
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { ApiError, Session, apiRequest, streamRequest } from "./api";
+import AuthorCard from "./AuthorCard";
+import BookDetail from "./BookDetail";
+import {
+  AuthorItem,
+  SearchItem,
+  bookPath,
+  describeEdition,
+  readBookRoute
+} from "./books";
+import FollowsView from "./FollowsView";
+import ImportView from "./ImportView";
+import JobsPanel from "./JobsPanel";
+import InstanceProfiles from "./InstanceProfiles";
+import { InstanceKind, InstanceSummary, instanceKindLabels } from "./instances";
+import LibraryStatus from "./LibraryStatus";
+import Login from "./Login";
+import NotificationPrefs from "./NotificationPrefs";
+import NotificationSettings from "./NotificationSettings";
+import type { NotificationChannel } from "./notifications";
+import RequestOptions from "./RequestOptions";
+import RequestsView from "./RequestsView";
+import {
+  OverrideField,
+  RequestOverrides,
+  RequestPage,
+  RequestRecord,
+  LinkedRequestResult,
+  RequestState,
+  describeOutcome,
+  isActiveRequest,
+  overrideFieldLabels,
+  stageLabel
+} from "./requests";
+import UsersPanel from "./UsersPanel";
+
+type InstanceSettings = InstanceSummary & {
   baseUrl: string;
   apiKey: string;
+  rootFolderPath?: string;
+  qualityProfileId?: number;
+  metadataProfileId?: number;
+  webhookSecret?: string;
 };
 
-type InstanceSettingsForm = {
+type InstanceSettingsForm = InstanceSummary & {
+  formKey: string;
   baseUrl: string;
   apiKey: string;
+  rootFolderPath: string;
+  qualityProfileId: string;
+  metadataProfileId: string;
+  webhookSecret: string;
 };
 
+type InstanceFormField = Exclude<keyof InstanceSettingsForm, "formKey" | "id">;
+
 type SettingsForm = {
-  ebooks: InstanceSettingsForm;
-  audio: InstanceSettingsForm;
+  instances: InstanceSettingsForm[];
+  requireApproval: boolean;
+  requesterOverrides: OverrideField[];
+  notificationChannels: NotificationChannel[];
 };
 
 type SettingsResponse = {
   configured: boolean;
+  instances?: InstanceSummary[];
   settings?: {
-    ebooks: InstanceSettings;
-    audio: InstanceSettings;
+    instances: InstanceSettings[];
+    requireApproval?: boolean;
+    requesterOverrides?: OverrideField[];
+    notificationChannels?: NotificationChannel[];
   };
 };
 
-type RequestState = "idle" | "loading" | "success" | "error";
-
-type RequestKey = `${string}-ebook` | `${string}-audio`;
-
-type InstanceKey = "ebooks" | "audio";
+type RequestKey = `${string}@${string}`;
 
 type TestResult = {
   state: RequestState;
@@ -56,51 +83,76 @@ type TestResult = {
 
 type ThemeMode = "light" | "dark";
 
-const API_BASE = import.meta.env.VITE_API_BASE || "";
-const AUTH_TOKEN = import.meta.env.VITE_AUTH || "";
-
-const instanceLabels = {
-  ebook: "Request Ebook",
-  audio: "Request Audiobook"
-} as const;
-
-const defaultForm: SettingsForm = {
-  ebooks: {
-    baseUrl: "",
-    apiKey: ""
-  },
-  audio: {
-    baseUrl: "",
-    apiKey: ""
-  }
-};
+type View =
+  | "search"
+  | "mine"
+  | "all"
+  | "approvals"
+  | "follows"
+  | "import"
+  | "notifications";
+
+const SESSION_STORAGE_KEY = "bookRequestsSession";
+const TRACK_REFRESH_MS = 20_000;
+
+let formKeyCounter = 0;
+
+const toInstanceForm = (
+  instance: Partial<InstanceSettings> & Pick<InstanceSummary, "kind">
+): InstanceSettingsForm => ({
+  formKey: `instance-${(formKeyCounter += 1)}`,
+  id: instance.id || "",
+  label: instance.label || "",
+  kind: instance.kind,
+  baseUrl: instance.baseUrl || "",
+  apiKey: instance.apiKey || "",
+  rootFolderPath: instance.rootFolderPath || "",
+  qualityProfileId: instance.qualityProfileId ? String(instance.qualityProfileId) : "",
+  metadataProfileId: instance.metadataProfileId
+    ? String(instance.metadataProfileId)
+    : "",
+  webhookSecret: instance.webhookSecret || ""
+});
+
+const defaultForm = (): SettingsForm => ({
+  instances: [
+    toInstanceForm({ label: "Ebooks", kind: "ebook" }),
+    toInstanceForm({ label: "Audiobooks", kind: "audiobook" })
+  ],
+  requireApproval: false,
+  requesterOverrides: [],
+  notificationChannels: []
+});
 
 const toSettingsForm = (settings?: SettingsResponse["settings"]): SettingsForm => {
   if (!settings) {
-    return defaultForm;
+    return defaultForm();
   }
 
   return {
-    ebooks: {
-      baseUrl: settings.ebooks.baseUrl || "",
-      apiKey: settings.ebooks.apiKey || ""
-    },
-    audio: {
-      baseUrl: settings.audio.baseUrl || "",
-      apiKey: settings.audio.apiKey || ""
-    }
+    instances: settings.instances.map(toInstanceForm),
+    requireApproval: Boolean(settings.requireApproval),
+    requesterOverrides: settings.requesterOverrides || [],
+    notificationChannels: settings.notificationChannels || []
   };
 };
 
-const normalizeAuthHeader = (token: string): string => {
-  const trimmed = token.trim();
-  if (!trimmed) {
-    return "";
+const generateSecret = (): string => {
+  const bytes = new Uint8Array(24);
+  window.crypto.getRandomValues(bytes);
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+};
+
+const loadStoredSession = (): Session | null => {
+  if (typeof window === "undefined") {
+    return null;
   }
-  if (trimmed.startsWith("Basic ") || trimmed.startsWith("Bearer ")) {
-    return trimmed;
+  try {
+    const stored = window.localStorage.getItem(SESSION_STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as Session) : null;
+  } catch {
+    return null;
   }
-  return `Bearer ${trimmed}`;
 };
 
 const toTitleCase = (value: string): string =>
@@ -144,61 +196,86 @@ const normalizeAuthorDisplay = (author: string, title: string): string => {
   return label;
 };
 
-const buildRequestKey = (key: string, instance: "ebook" | "audio"): RequestKey =>
-  `${key}-${instance}`;
+const buildRequestKey = (key: string, instanceId: string): RequestKey =>
+  `${key}@${instanceId}`;
+
+const requestButtonLabel = (
+  instance: InstanceSummary,
+  instances: InstanceSummary[]
+): string => {
+  const sharedKind = instances.some(
+    (entry) => entry.id !== instance.id && entry.kind === instance.kind
+  );
+  return instance.kind === "other" || sharedKind
+    ? `Request ${instance.label}`
+    : `Request ${instanceKindLabels[instance.kind]}`;
+};
 
 const App = () => {
   const [term, setTerm] = useState("");
   const [results, setResults] = useState<SearchItem[]>([]);
+  const [authors, setAuthors] = useState<AuthorItem[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [instanceErrors, setInstanceErrors] = useState<Record<string, string>>({});
   const [requestState, setRequestState] = useState<Record<RequestKey, RequestState>>(
     {}
   );
+  const [requestErrors, setRequestErrors] = useState<Record<RequestKey, string>>({});
+  const [requestGroups, setRequestGroups] = useState<Record<string, string>>({});
   const [configured, setConfigured] = useState(false);
   const [settingsLoading, setSettingsLoading] = useState(true);
   const [settings, setSettings] = useState<SettingsForm>(defaultForm);
+  const [instances, setInstances] = useState<InstanceSummary[]>([]);
   const [showSettings, setShowSettings] = useState(false);
   const [settingsNotice, setSettingsNotice] = useState<string | null>(null);
   const [savingSettings, setSavingSettings] = useState(false);
-  const [authToken, setAuthToken] = useState(AUTH_TOKEN);
-  const [testResults, setTestResults] = useState<Record<InstanceKey, TestResult>>({
-    ebooks: { state: "idle" },
-    audio: { state: "idle" }
-  });
+  const [session, setSession] = useState<Session | null>(loadStoredSession);
+  const [testResults, setTestResults] = useState<Record<string, TestResult>>({});
   const [theme, setTheme] = useState<ThemeMode>("light");
+  const [view, setView] = useState<View>("search");
+  const [optionsFor, setOptionsFor] = useState<RequestKey | null>(null);
+  const [bookKey, setBookKey] = useState<string | null>(readBookRoute);
+  const searchAbort = useRef<AbortController | null>(null);
+  const [tracked, setTracked] = useState<Partial<Record<RequestKey, RequestRecord>>>(
+    {}
+  );
 
   const canSearch = term.trim().length > 2 && configured;
   const hasResults = results.length > 0;
 
-  const authHeader = normalizeAuthHeader(authToken);
-  const authHeaders = useMemo(
-    () => (authHeader ? { Authorization: authHeader } : {}),
-    [authHeader]
-  );
+  const token = session?.token || "";
+  const isAdmin = session?.user.role === "admin";
 
   useEffect(() => {
     if (typeof window === "undefined") {
       return;
     }
 
-    const stored = window.localStorage.getItem("bookRequestsAuth");
-    if (stored && stored !== authToken) {
-      setAuthToken(stored);
-    }
-  }, []);
-
-  useEffect(() => {
-    if (typeof window === "undefined") {
-      return;
-    }
-
-    if (!authToken) {
-      window.localStorage.removeItem("bookRequestsAuth");
+    if (!session) {
+      window.localStorage.removeItem(SESSION_STORAGE_KEY);
     } else {
-      window.localStorage.setItem("bookRequestsAuth", authToken);
+      window.localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
     }
-  }, [authToken]);
+  }, [session]);
+
+  const callApi = useCallback(
+    async <T,>(
+      path: string,
+      options: { method?: string; body?: unknown },
+      fallbackError: string
+    ): Promise<T> => {
+      try {
+        return await apiRequest<T>(path, { ...options, token }, fallbackError);
+      } catch (err) {
+        if (err instanceof ApiError && err.status === 401) {
+          setSession(null);
+        }
+        throw err;
+      }
+    },
+    [token]
+  );
 
   useEffect(() => {
     if (typeof window === "undefined") {
@@ -226,47 +303,98 @@ const App = () => {
   }, [theme]);
 
   const loadSettings = useCallback(async () => {
+    if (!token) {
+      return;
+    }
     setSettingsLoading(true);
     setSettingsNotice(null);
 
     try {
-      const response = await fetch(`${API_BASE}/api/settings`, {
-        headers: {
-          ...authHeaders
-        }
-      });
-
-      if (!response.ok) {
-        const payload = await response.json().catch(() => ({}));
-        throw new Error(payload.error || "Unable to load settings.");
-      }
-
-      const payload = (await response.json()) as SettingsResponse;
+      const payload = await callApi<SettingsResponse>(
+        "/api/settings",
+        {},
+        "Unable to load settings."
+      );
 
-      const isConfigured = Boolean(payload.configured && payload.settings);
-      setConfigured(isConfigured);
+      setConfigured(Boolean(payload.configured));
+      setInstances(payload.instances || []);
       setSettings(toSettingsForm(payload.settings));
-      setShowSettings(!isConfigured);
+      setShowSettings(isAdmin && !payload.configured);
     } catch (err) {
       const message = err instanceof Error ? err.message : "Unable to load settings.";
       setSettingsNotice(message);
       setConfigured(false);
-      setShowSettings(true);
+      setShowSettings(isAdmin);
     } finally {
       setSettingsLoading(false);
     }
-  }, [authHeaders]);
+  }, [callApi, isAdmin, token]);
 
   useEffect(() => {
     loadSettings();
   }, [loadSettings]);
 
+  const handleLogout = async () => {
+    try {
+      await callApi("/api/auth/logout", { method: "POST" }, "Logout failed.");
+    } catch {
+      // The session is dropped locally either way.
+    }
+    setSession(null);
+    setResults([]);
+    setShowSettings(false);
+    setView("search");
+    setTracked({});
+  };
+
+  useEffect(() => {
+    const handlePopState = () => setBookKey(readBookRoute());
+    window.addEventListener("popstate", handlePopState);
+    return () => window.removeEventListener("popstate", handlePopState);
+  }, []);
+
+  const openBook = (key: string) => {
+    window.history.pushState({ book: key }, "", bookPath(key));
+    setBookKey(key);
+    setView("search");
+  };
+
+  const closeBook = () => {
+    if (window.history.state?.book) {
+      window.history.back();
+      return;
+    }
+    window.history.replaceState(null, "", "/");
+    setBookKey(null);
+  };
+
   const resultCountLabel = useMemo(() => {
     if (!hasResults) {
       return "";
     }
-    return `${results.length} match${results.length === 1 ? "" : "es"}`;
-  }, [hasResults, results.length]);
+    const count = `${results.length} match${results.length === 1 ? "" : "es"}`;
+    return loading ? `${count} so far...` : count;
+  }, [hasResults, loading, results.length]);
+
+  const mergeResults = (items: SearchItem[]) =>
+    setResults((prev) => {
+      const updates = new Map(items.map((item) => [item.key, item]));
+      const known = new Set(prev.map((item) => item.key));
+      return [
+        ...prev.map((item) => updates.get(item.key) || item),
+        ...items.filter((item) => !known.has(item.key))
+      ];
+    });
+
+  const mergeAuthors = (items: AuthorItem[]) =>
+    setAuthors((prev) => {
+      const updates = new Map(items.map((item) => [item.key, item]));
+      const known = new Set(prev.map((item) => item.key));
+      return [
+        ...prev.map((item) => updates.get(item.key) || item),
+        ...items.filter((item) => !known.has(item.key))
+      ];
+    });
 
   const handleSearch = async (event: React.FormEvent<HTMLFormElement>) => {
     event.preventDefault();
@@ -277,110 +405,298 @@ const App = () => {
       return;
     }
 
+    searchAbort.current?.abort();
+    const controller = new AbortController();
+    searchAbort.current = controller;
+
+    if (bookKey) {
+      window.history.pushState(null, "", "/");
+      setBookKey(null);
+    }
     setLoading(true);
     setError(null);
+    setView("search");
+    setResults([]);
+    setAuthors([]);
+    setInstanceErrors({});
+    setRequestState({});
+    setRequestErrors({});
+    setRequestGroups({});
 
     try {
-      const response = await fetch(
-        `${API_BASE}/api/search?term=${encodeURIComponent(term.trim())}`,
-        {
-          headers: {
-            ...authHeaders
+      await streamRequest(
+        `/api/search/stream?term=${encodeURIComponent(term.trim())}`,
+        { token, signal: controller.signal },
+        (event, data) => {
+          if (event === "items") {
+            mergeResults((data as { items: SearchItem[] }).items);
+          } else if (event === "authors") {
+            mergeAuthors((data as { authors: AuthorItem[] }).authors);
+          } else if (event === "instance-error") {
+            const payload = data as { instance: string; error: string };
+            setInstanceErrors((prev) => ({ ...prev, [payload.instance]: payload.error }));
+          } else if (event === "error") {
+            setError((data as { error?: string }).error || "Search failed.");
           }
-        }
+        },
+        "Search failed."
       );
-
-      if (!response.ok) {
-        const payload = await response.json().catch(() => ({}));
-        throw new Error(payload.error || "Search failed.");
-      }
-
-      const payload = (await response.json()) as { items: SearchItem[] };
-      setResults(payload.items || []);
-      setRequestState({});
     } catch (err) {
-      const message = err instanceof Error ? err.message : "Search failed.";
-      setError(message);
-      setResults([]);
+      if (controller.signal.aborted) {
+        return;
+      }
+      if (err instanceof ApiError && err.status === 401) {
+        setSession(null);
+      }
+      setError(err instanceof Error ? err.message : "Search failed.");
     } finally {
-      setLoading(false);
+      if (searchAbort.current === controller) {
+        searchAbort.current = null;
+        setLoading(false);
+      }
     }
   };
 
-  const requestBook = async (item: SearchItem, instance: "ebook" | "audio") => {
-    const lookup = instance === "ebook" ? item.ebook.lookup : item.audio.lookup;
-    const existingId =
-      instance === "ebook" ? item.ebook.existingId : item.audio.existingId;
+  const requestBook = async (
+    item: SearchItem,
+    instanceId: string,
+    overrides?: RequestOverrides,
+    editionId?: string
+  ) => {
+    const lookup = item.instances[instanceId]?.lookup;
+    const existingId = item.instances[instanceId]?.existingId;
     if (!lookup && !existingId) {
       return;
     }
 
-    const key = buildRequestKey(item.key, instance);
+    const key = buildRequestKey(item.key, instanceId);
     setRequestState((prev) => ({ ...prev, [key]: "loading" }));
     setError(null);
 
     try {
-      const response = await fetch(
-        `${API_BASE}/api/request/${instance === "ebook" ? "ebook" : "audiobook"}`,
+      const payload = await callApi<{
+        status: "ok" | "pending";
+        request: RequestRecord;
+      }>(
+        `/api/request/${encodeURIComponent(instanceId)}`,
         {
           method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            ...authHeaders
-          },
-          body: JSON.stringify({ book: lookup, existingId })
-        }
+          body: {
+            book: lookup,
+            existingId,
+            overrides,
+            editionId,
+            item: {
+              key: item.key,
+              title: item.title,
+              author: item.author,
+              isbn13: item.isbn13,
+              foreignBookId: item.foreignBookId,
+              goodreadsId: item.goodreadsId
+            }
+          }
+        },
+        "Request failed."
       );
 
-      if (!response.ok) {
-        const payload = await response.json().catch(() => ({}));
-        throw new Error(payload.error || "Request failed.");
-      }
+      applyRequestResult(item, instanceId, payload.status, payload.request);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Request failed.";
+      setError(message);
+      setRequestState((prev) => ({ ...prev, [key]: "error" }));
+    }
+  };
+
+  const applyRequestResult = (
+    item: SearchItem,
+    instanceId: string,
+    status: "ok" | "pending",
+    request: RequestRecord
+  ) => {
+    const key = buildRequestKey(item.key, instanceId);
+    setTracked((prev) => ({ ...prev, [key]: request }));
+    setOptionsFor((prev) => (prev === key ? null : prev));
+    if (status === "pending") {
+      setRequestState((prev) => ({ ...prev, [key]: "pending" }));
+      return;
+    }
 
-      setResults((prev) =>
-        prev.map((entry) =>
-          entry.key === item.key
-            ? {
-                ...entry,
-                [instance]: {
-                  ...entry[instance],
+    setResults((prev) =>
+      prev.map((entry) =>
+        entry.key === item.key
+          ? {
+              ...entry,
+              instances: {
+                ...entry.instances,
+                [instanceId]: {
+                  ...entry.instances[instanceId],
                   alreadyAdded: true
                 }
               }
-            : entry
-        )
+            }
+          : entry
+      )
+    );
+    setRequestState((prev) => ({ ...prev, [key]: "success" }));
+  };
+
+  const requestLinked = async (item: SearchItem, instanceIds: string[]) => {
+    const keys = instanceIds.map((instanceId) => buildRequestKey(item.key, instanceId));
+    const markAll = (state: RequestState) =>
+      setRequestState((prev) => ({
+        ...prev,
+        ...Object.fromEntries(keys.map((key) => [key, state]))
+      }));
+    markAll("loading");
+    setRequestErrors((prev) => {
+      const next = { ...prev };
+      keys.forEach((key) => delete next[key]);
+      return next;
+    });
+    setError(null);
+
+    try {
+      const payload = await callApi<{ groupId: string; results: LinkedRequestResult[] }>(
+        "/api/request/both",
+        {
+          method: "POST",
+          body: {
+            groupId: requestGroups[item.key],
+            instances: instanceIds.map((instanceId) => ({
+              instanceId,
+              book: item.instances[instanceId]?.lookup,
+              existingId: item.instances[instanceId]?.existingId
+            })),
+            item: {
+              key: item.key,
+              title: item.title,
+              author: item.author,
+              isbn13: item.isbn13,
+              foreignBookId: item.foreignBookId,
+              goodreadsId: item.goodreadsId
+            }
+          }
+        },
+        "Request failed."
       );
-      setRequestState((prev) => ({ ...prev, [key]: "success" }));
+
+      setRequestGroups((prev) => ({ ...prev, [item.key]: payload.groupId }));
+      for (const result of payload.results) {
+        if (result.status !== "failed" && result.request) {
+          applyRequestResult(item, result.instance, result.status, result.request);
+          continue;
+        }
+        const key = buildRequestKey(item.key, result.instance);
+        setRequestState((prev) => ({ ...prev, [key]: "error" }));
+        setRequestErrors((prev) => ({ ...prev, [key]: result.error || "Request failed." }));
+      }
     } catch (err) {
-      const message = err instanceof Error ? err.message : "Request failed.";
-      setError(message);
-      setRequestState((prev) => ({ ...prev, [key]: "error" }));
+      setError(err instanceof Error ? err.message : "Request failed.");
+      markAll("error");
     }
   };
 
+  const activeIds = useMemo(
+    () =>
+      Object.values(tracked)
+        .filter((record): record is RequestRecord => Boolean(record))
+        .filter(isActiveRequest)
+        .map((record) => record.id)
+        .sort()
+        .join(","),
+    [tracked]
+  );
+
+  useEffect(() => {
+    if (!activeIds) {
+      return undefined;
+    }
+
+    const refresh = async () => {
+      try {
+        const payload = await callApi<RequestPage>(
+          `/api/requests?scope=mine&pageSize=100&ids=${encodeURIComponent(activeIds)}`,
+          {},
+          "Unable to refresh request status."
+        );
+        setTracked((prev) => {
+          const next = { ...prev };
+          for (const [key, record] of Object.entries(prev)) {
+            const fresh = payload.items.find((entry) => entry.id === record?.id);
+            if (fresh) {
+              next[key as RequestKey] = fresh;
+            }
+          }
+          return next;
+        });
+      } catch {
+        // Status polling is best effort; the next tick tries again.
+      }
+    };
+
+    const timer = window.setInterval(refresh, TRACK_REFRESH_MS);
+    return () => window.clearInterval(timer);
+  }, [activeIds, callApi]);
+
   const updateInstanceField = (
-    instance: InstanceKey,
-    field: keyof InstanceSettingsForm,
+    formKey: string,
+    field: InstanceFormField,
     value: string
   ) => {
     setSettings((prev) => ({
       ...prev,
-      [instance]: {
-        ...prev[instance],
-        [field]: value
+      instances: prev.instances.map((instance) =>
+        instance.formKey === formKey ? { ...instance, [field]: value } : instance
+      )
+    }));
+  };
+
+  const moveInstance = (index: number, offset: number) => {
+    setSettings((prev) => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.instances.length) {
+        return prev;
       }
+      const next = [...prev.instances];
+      [next[index], next[target]] = [next[target], next[index]];
+      return { ...prev, instances: next };
+    });
+  };
+
+  const removeInstance = (formKey: string) => {
+    setSettings((prev) => ({
+      ...prev,
+      instances: prev.instances.filter((instance) => instance.formKey !== formKey)
+    }));
+  };
+
+  const addInstance = () => {
+    setSettings((prev) => ({
+      ...prev,
+      instances: [...prev.instances, toInstanceForm({ kind: "other" })]
     }));
   };
 
   const buildSettingsPayload = () => ({
-    ebooks: {
-      baseUrl: settings.ebooks.baseUrl.trim(),
-      apiKey: settings.ebooks.apiKey.trim()
-    },
-    audio: {
-      baseUrl: settings.audio.baseUrl.trim(),
-      apiKey: settings.audio.apiKey.trim()
-    }
+    instances: settings.instances.map((instance) => ({
+      id: instance.id || undefined,
+      label: instance.label.trim(),
+      kind: instance.kind,
+      baseUrl: instance.baseUrl.trim(),
+      apiKey: instance.apiKey.trim(),
+      rootFolderPath: instance.rootFolderPath,
+      qualityProfileId: instance.qualityProfileId,
+      metadataProfileId: instance.metadataProfileId,
+      webhookSecret: instance.webhookSecret.trim()
+    })),
+    requireApproval: settings.requireApproval,
+    requesterOverrides: settings.requesterOverrides,
+    notificationChannels: settings.notificationChannels.map((channel) => ({
+      ...channel,
+      label: channel.label.trim(),
+      url: channel.url?.trim(),
+      smtp: channel.smtp && { ...channel.smtp, port: Number(channel.smtp.port) }
+    }))
   });
 
   const handleSaveSettings = async () => {
@@ -388,23 +704,20 @@ const App = () => {
     setSavingSettings(true);
 
     try {
-      const response = await fetch(`${API_BASE}/api/settings`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          ...authHeaders
-        },
-        body: JSON.stringify({ settings: buildSettingsPayload() })
-      });
+      const payload = await callApi<{ warnings?: string[] }>(
+        "/api/settings",
+        { method: "POST", body: { settings: buildSettingsPayload() } },
+        "Unable to save settings."
+      );
 
-      if (!response.ok) {
-        const payload = await response.json().catch(() => ({}));
-        throw new Error(payload.error || "Unable to save settings.");
+      await loadSettings();
+      if (payload.warnings?.length) {
+        setShowSettings(true);
+        setSettingsNotice(`Settings saved. ${payload.warnings.join(" ")}`);
+      } else {
+        setShowSettings(false);
+        setSettingsNotice("Settings saved.");
       }
-
-      setConfigured(true);
-      setShowSettings(false);
-      setSettingsNotice("Settings saved.");
     } catch (err) {
       const message = err instanceof Error ? err.message : "Unable to save settings.";
       setSettingsNotice(message);
@@ -413,40 +726,37 @@ const App = () => {
     }
   };
 
-  const handleTestConnection = async (instance: InstanceKey) => {
+  const handleTestConnection = async (instance: InstanceSettingsForm) => {
     setTestResults((prev) => ({
       ...prev,
-      [instance]: { state: "loading" }
+      [instance.formKey]: { state: "loading" }
     }));
     setSettingsNotice(null);
 
     try {
-      const response = await fetch(`${API_BASE}/api/settings/test`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          ...authHeaders
+      await callApi(
+        "/api/settings/test",
+        {
+          method: "POST",
+          body: {
+            settings: {
+              baseUrl: instance.baseUrl.trim(),
+              apiKey: instance.apiKey.trim()
+            }
+          }
         },
-        body: JSON.stringify({
-          instance,
-          settings: buildSettingsPayload()[instance]
-        })
-      });
-
-      if (!response.ok) {
-        const payload = await response.json().catch(() => ({}));
-        throw new Error(payload.error || "Connection failed.");
-      }
+        "Connection failed."
+      );
 
       setTestResults((prev) => ({
         ...prev,
-        [instance]: { state: "success", message: "Connected" }
+        [instance.formKey]: { state: "success", message: "Connected" }
       }));
     } catch (err) {
       const message = err instanceof Error ? err.message : "Connection failed.";
       setTestResults((prev) => ({
         ...prev,
-        [instance]: { state: "error", message }
+        [instance.formKey]: { state: "error", message }
       }));
     }
   };
@@ -456,7 +766,22 @@ const App = () => {
     ? loading
       ? "Talking to Readarr..."
       : "Buttons will disable when a book is already added."
-    : "Configure Readarr first, then search for requests.";
+    : isAdmin
+    ? "Configure Readarr first, then search for requests."
+    : "An admin needs to configure Readarr before you can search.";
+
+  if (!session) {
+    return (
+      <div className="page">
+        <Login
+          onLogin={(next) => {
+            setSession(next);
+            setSettingsNotice(null);
+          }}
+        />
+      </div>
+    );
+  }
 
   return (
     <div className="page">
@@ -472,7 +797,7 @@ const App = () => {
               >
                 {theme === "dark" ? "Light mode" : "Dark mode"}
               </button>
-              {configured && (
+              {isAdmin && configured && (
                 <button
                   type="button"
                   className="button button--ghost"
@@ -481,24 +806,32 @@ const App = () => {
                   {showSettings ? "Close settings" : "Settings"}
                 </button>
               )}
+              <button
+                type="button"
+                className="button button--ghost"
+                onClick={handleLogout}
+                title={`Signed in as ${session.user.username}`}
+              >
+                Sign out
+              </button>
             </div>
           </div>
           <h1>Request new books in seconds.</h1>
           <p className="lede">
-            Search once, then send a request to the ebook or audiobook library
+            Search once, then send a request to any of your Readarr libraries
             instantly.
           </p>
         </div>
         <div className="hero__panel">
           <form onSubmit={handleSearch} className="search">
             <label htmlFor="search" className="search__label">
-              Title, author, or ISBN
+              Title, author, ISBN or book link
             </label>
             <div className="search__row">
               <input
                 id="search"
                 type="text"
-                placeholder="Try: The Hobbit, Tolkien, 9780618968633"
+                placeholder="Try: The Hobbit, Tolkien, 9780618968633 or a Goodreads link"
                 value={term}
                 onChange={(event) => setTerm(event.target.value)}
                 disabled={!configured}
@@ -508,11 +841,17 @@ const App = () => {
               </button>
             </div>
             <p className="search__hint">{searchHint}</p>
+            <p className="search__hint search__syntax">
+              Narrow it down with <code>author:</code>, <code>title:</code>,{" "}
+              <code>series:</code>, <code>isbn:</code>, <code>asin:</code>,{" "}
+              <code>goodreads:</code> or "exact phrases", e.g.{" "}
+              <code>author:"Ursula K. Le Guin" title:earthsea</code>
+            </p>
           </form>
         </div>
       </header>
 
-      {(showSettings || !configured) && (
+      {isAdmin && (showSettings || !configured) && (
         <section className="settings">
           <div className="settings__header">
             <div>
@@ -522,18 +861,9 @@ const App = () => {
           </div>
 
           <div className="settings__auth">
-            <div className="field">
-              <label>Access token (optional)</label>
-              <input
-                type="password"
-                placeholder="Bearer token or shared password"
-                value={authToken}
-                onChange={(event) => setAuthToken(event.target.value)}
-              />
-              <span className="field__hint">
-                Used for API calls when AUTH is enabled.
-              </span>
-            </div>
+            <p className="settings__user">
+              Signed in as <strong>{session.user.username}</strong> (admin).
+            </p>
             <button
               type="button"
               className="button button--ghost"
@@ -547,22 +877,70 @@ const App = () => {
           {settingsNotice && <div className="notice">{settingsNotice}</div>}
 
           <div className="settings__grid">
-            {(["ebooks", "audio"] as InstanceKey[]).map((instance) => {
-              const label = instance === "ebooks" ? "Ebooks" : "Audiobooks";
-              const instanceSettings = settings[instance];
-              const testResult = testResults[instance];
+            {settings.instances.map((instance, index) => {
+              const testResult = testResults[instance.formKey] || { state: "idle" };
 
               return (
-                <div key={instance} className="settings__panel">
-                  <h3>{label}</h3>
+                <div key={instance.formKey} className="settings__panel">
+                  <div className="settings__panel-head">
+                    <h3>{instance.label || "New instance"}</h3>
+                    <div className="settings__panel-order">
+                      <button
+                        type="button"
+                        className="button button--ghost"
+                        onClick={() => moveInstance(index, -1)}
+                        disabled={index === 0}
+                        aria-label="Move up"
+                      >
+                        ↑
+                      </button>
+                      <button
+                        type="button"
+                        className="button button--ghost"
+                        onClick={() => moveInstance(index, 1)}
+                        disabled={index === settings.instances.length - 1}
+                        aria-label="Move down"
+                      >
+                        ↓
+                      </button>
+                    </div>
+                  </div>
+                  <div className="field__row">
+                    <div className="field">
+                      <label>Name</label>
+                      <input
+                        type="text"
+                        placeholder="Foreign-language ebooks"
+                        value={instance.label}
+                        onChange={(event) =>
+                          updateInstanceField(instance.formKey, "label", event.target.value)
+                        }
+                      />
+                    </div>
+                    <div className="field">
+                      <label>Kind</label>
+                      <select
+                        value={instance.kind}
+                        onChange={(event) =>
+                          updateInstanceField(instance.formKey, "kind", event.target.value)
+                        }
+                      >
+                        {(Object.keys(instanceKindLabels) as InstanceKind[]).map((kind) => (
+                          <option key={kind} value={kind}>
+                            {instanceKindLabels[kind]}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
                   <div className="field">
                     <label>Base URL</label>
                     <input
                       type="text"
                       placeholder="http://10.0.0.20:8787"
-                      value={instanceSettings.baseUrl}
+                      value={instance.baseUrl}
                       onChange={(event) =>
-                        updateInstanceField(instance, "baseUrl", event.target.value)
+                        updateInstanceField(instance.formKey, "baseUrl", event.target.value)
                       }
                     />
                   </div>
@@ -571,11 +949,66 @@ const App = () => {
                     <input
                       type="password"
                       placeholder="Readarr API key"
-                      value={instanceSettings.apiKey}
+                      value={instance.apiKey}
                       onChange={(event) =>
-                        updateInstanceField(instance, "apiKey", event.target.value)
+                        updateInstanceField(instance.formKey, "apiKey", event.target.value)
+                      }
+                    />
+                  </div>
+                  {instance.id ? (
+                    <InstanceProfiles
+                      api={callApi}
+                      instanceId={instance.id}
+                      values={instance}
+                      onChange={(field, value) =>
+                        updateInstanceField(instance.formKey, field, value)
                       }
                     />
+                  ) : (
+                    <span className="field__hint">
+                      Save settings to choose a root folder and profiles.
+                    </span>
+                  )}
+                  <div className="field">
+                    <label>Webhook secret (optional)</label>
+                    <div className="field__row">
+                      <input
+                        type="text"
+                        placeholder="Shared secret for Readarr Connect"
+                        value={instance.webhookSecret}
+                        onChange={(event) =>
+                          updateInstanceField(
+                            instance.formKey,
+                            "webhookSecret",
+                            event.target.value
+                          )
+                        }
+                      />
+                      <button
+                        type="button"
+                        className="button button--ghost"
+                        onClick={() =>
+                          updateInstanceField(
+                            instance.formKey,
+                            "webhookSecret",
+                            generateSecret()
+                          )
+                        }
+                      >
+                        Generate
+                      </button>
+                    </div>
+                    <span className="field__hint">
+                      {instance.id ? (
+                        <>
+                          In Readarr add a Webhook connection (Grab, Import, Rename) to{" "}
+                          {`${window.location.origin}/api/webhooks/readarr/${instance.id}`}{" "}
+                          and use the secret as the password.
+                        </>
+                      ) : (
+                        "Save settings to get this instance's webhook URL."
+                      )}
+                    </span>
                   </div>
 
                   <div className="settings__panel-actions">
@@ -589,6 +1022,14 @@ const App = () => {
                         ? "Testing..."
                         : "Test connection"}
                     </button>
+                    <button
+                      type="button"
+                      className="button button--ghost"
+                      onClick={() => removeInstance(instance.formKey)}
+                      disabled={settings.instances.length === 1}
+                    >
+                      Remove
+                    </button>
                     {testResult.state === "success" && (
                       <span className="status status--ok">Connected</span>
                     )}
@@ -603,6 +1044,61 @@ const App = () => {
             })}
           </div>
 
+          <div className="settings__panel-actions">
+            <button type="button" className="button button--ghost" onClick={addInstance}>
+              Add Readarr instance
+            </button>
+          </div>
+
+          {configured && <LibraryStatus api={callApi} />}
+          {configured && <JobsPanel api={callApi} />}
+
+          <label className="toggle">
+            <input
+              type="checkbox"
+              checked={settings.requireApproval}
+              onChange={(event) =>
+                setSettings((prev) => ({
+                  ...prev,
+                  requireApproval: event.target.checked
+                }))
+              }
+            />
+            <span>
+              Require admin approval for requests from requesters (trusted
+              users can skip it).
+            </span>
+          </label>
+
+          <div className="field">
+            <label>Requesters may choose per request</label>
+            {(Object.keys(overrideFieldLabels) as OverrideField[]).map((field) => (
+              <label key={field} className="toggle">
+                <input
+                  type="checkbox"
+                  checked={settings.requesterOverrides.includes(field)}
+                  onChange={(event) =>
+                    setSettings((prev) => ({
+                      ...prev,
+                      requesterOverrides: event.target.checked
+                        ? [...prev.requesterOverrides, field]
+                        : prev.requesterOverrides.filter((entry) => entry !== field)
+                    }))
+                  }
+                />
+                <span>{overrideFieldLabels[field]}</span>
+              </label>
+            ))}
+          </div>
+
+          <NotificationSettings
+            api={callApi}
+            channels={settings.notificationChannels}
+            onChange={(notificationChannels) =>
+              setSettings((prev) => ({ ...prev, notificationChannels }))
+            }
+          />
+
           <div className="settings__actions">
             <button
               type="button"
@@ -613,129 +1109,327 @@ const App = () => {
               {savingSettings ? "Saving..." : "Save settings"}
             </button>
           </div>
+
+          <UsersPanel api={callApi} currentUserId={session.user.id} />
         </section>
       )}
 
-      <main className="results">
-        <div className="results__header">
-          <h2>Results</h2>
-          {resultCountLabel && <span>{resultCountLabel}</span>}
-        </div>
+      <nav className="tabs">
+        <button
+          type="button"
+          className={`tabs__item${view === "search" ? " tabs__item--active" : ""}`}
+          onClick={() => setView("search")}
+        >
+          Search
+        </button>
+        <button
+          type="button"
+          className={`tabs__item${view === "mine" ? " tabs__item--active" : ""}`}
+          onClick={() => setView("mine")}
+        >
+          My requests
+        </button>
+        {isAdmin && (
+          <button
+            type="button"
+            className={`tabs__item${view === "all" ? " tabs__item--active" : ""}`}
+            onClick={() => setView("all")}
+          >
+            All requests
+          </button>
+        )}
+        {isAdmin && (
+          <button
+            type="button"
+            className={`tabs__item${view === "approvals" ? " tabs__item--active" : ""}`}
+            onClick={() => setView("approvals")}
+          >
+            Approvals
+          </button>
+        )}
+        <button
+          type="button"
+          className={`tabs__item${view === "follows" ? " tabs__item--active" : ""}`}
+          onClick={() => setView("follows")}
+        >
+          {isAdmin ? "Followed authors" : "My authors"}
+        </button>
+        <button
+          type="button"
+          className={`tabs__item${view === "import" ? " tabs__item--active" : ""}`}
+          onClick={() => setView("import")}
+        >
+          Import
+        </button>
+        <button
+          type="button"
+          className={`tabs__item${view === "notifications" ? " tabs__item--active" : ""}`}
+          onClick={() => setView("notifications")}
+        >
+          Notifications
+        </button>
+      </nav>
+
+      {view === "notifications" && <NotificationPrefs api={callApi} isAdmin={isAdmin} />}
+
+      {view === "follows" && (
+        <FollowsView api={callApi} isAdmin={isAdmin} instances={instances} />
+      )}
 
-        {error && <div className="error">{error}</div>}
+      {view === "import" && <ImportView api={callApi} instances={instances} />}
 
-        {!loading && !hasResults && (
-          <div className="empty">
-            <p>
-              {configured
-                ? "Search for a book to get started."
-                : "Complete setup to start searching."}
-            </p>
-          </div>
-        )}
+      {(view === "mine" || view === "all" || view === "approvals") && (
+        <RequestsView
+          api={callApi}
+          mode={view}
+          instances={instances}
+          isAdmin={isAdmin}
+        />
+      )}
 
-        <div className="results__grid">
-          {results.map((item, index) => {
-            const ebookKey = buildRequestKey(item.key, "ebook");
-            const audioKey = buildRequestKey(item.key, "audio");
-            const ebookState = requestState[ebookKey] || "idle";
-            const audioState = requestState[audioKey] || "idle";
-            const canRequestEbook =
-              item.ebook.available &&
-              !item.ebook.alreadyAdded &&
-              (!!item.ebook.lookup || !!item.ebook.existingId);
-            const canRequestAudio =
-              item.audio.available &&
-              !item.audio.alreadyAdded &&
-              (!!item.audio.lookup || !!item.audio.existingId);
-            const isRequestingBoth =
-              ebookState === "loading" || audioState === "loading";
-            const canRequestBoth = (canRequestEbook || canRequestAudio) && !isRequestingBoth;
-            const authorLabel = normalizeAuthorDisplay(item.author, item.title);
-
-            return (
-              <article
-                key={item.key}
-                className="card"
-                style={{ animationDelay: `${index * 60}ms` }}
-              >
-                <div className="card__meta">
-                  <h3>{item.title}</h3>
-                  <p className="card__author">{authorLabel}</p>
-                  <div className="card__ids">
-                    {item.isbn13 && <span>ISBN {item.isbn13}</span>}
-                    {item.goodreadsId && <span>GR {item.goodreadsId}</span>}
-                  </div>
-                </div>
+      {view === "search" && bookKey && (
+        <BookDetail
+          api={callApi}
+          bookKey={bookKey}
+          instances={instances}
+          stateFor={(instanceId) =>
+            requestState[buildRequestKey(bookKey, instanceId)] || "idle"
+          }
+          onRequest={(book, instanceId, editionId) =>
+            requestBook(book, instanceId, undefined, editionId)
+          }
+          onBack={closeBook}
+        />
+      )}
 
-                <div className="card__actions">
-                  <button
-                    type="button"
-                    className="action action--accent"
-                    disabled={!canRequestBoth}
-                    onClick={() => {
-                      if (canRequestEbook) {
-                        void requestBook(item, "ebook");
-                      }
-                      if (canRequestAudio) {
-                        void requestBook(item, "audio");
-                      }
-                    }}
-                  >
-                    {isRequestingBoth ? "Requesting..." : "Request Both"}
-                  </button>
-                </div>
+      {view === "search" && !bookKey && (
+        <main className="results">
+          <div className="results__header">
+            <h2>Results</h2>
+            {resultCountLabel && <span>{resultCountLabel}</span>}
+          </div>
 
-                <div className="card__actions">
-                  <button
-                    type="button"
-                    className="action action--primary"
-                    disabled={
-                      !canRequestEbook || ebookState === "loading"
-                    }
-                    onClick={() => requestBook(item, "ebook")}
-                  >
-                    {item.ebook.alreadyAdded
-                      ? "Already added"
-                      : ebookState === "loading"
-                      ? "Requesting..."
-                      : instanceLabels.ebook}
-                  </button>
-                  {!item.ebook.available && (
-                    <span className="status">Not available</span>
-                  )}
-                  {ebookState === "success" && (
-                    <span className="status status--ok">Queued</span>
-                  )}
-                </div>
+          {error && <div className="error">{error}</div>}
+          {Object.entries(instanceErrors).map(([instanceId, message]) => (
+            <div key={instanceId} className="error">
+              {instances.find((instance) => instance.id === instanceId)?.label ||
+                instanceId}
+              : {message}
+              {instances.length > 1 && " Showing results from the other instances."}
+            </div>
+          ))}
+
+          {!loading && !hasResults && (
+            <div className="empty">
+              <p>
+                {configured
+                  ? "Search for a book to get started."
+                  : "Complete setup to start searching."}
+              </p>
+            </div>
+          )}
+
+          {authors.length > 0 && (
+            <div className="authors">
+              {authors.map((author) => (
+                <AuthorCard
+                  key={author.key}
+                  api={callApi}
+                  author={author}
+                  instances={instances}
+                  offline={instanceErrors}
+                />
+              ))}
+            </div>
+          )}
+
+          <div className="results__grid">
+            {results.map((item, index) => {
+              const targets = instances.map((instance) => {
+                const status = item.instances[instance.id];
+                const key = buildRequestKey(item.key, instance.id);
+                const state = requestState[key] || "idle";
+                const offline = Boolean(instanceErrors[instance.id] || status?.offline);
+                return {
+                  instance,
+                  status,
+                  key,
+                  state,
+                  offline,
+                  canRequest:
+                    !offline &&
+                    Boolean(status?.available) &&
+                    !status.alreadyAdded &&
+                    state !== "pending" &&
+                    (!!status.lookup || !!status.existingId)
+                };
+              });
+              const isRequestingAll = targets.some((target) => target.state === "loading");
+              const failedTargets = requestGroups[item.key]
+                ? targets.filter((target) => target.state === "error" && target.canRequest)
+                : [];
+              const linkedTargets = failedTargets.length
+                ? failedTargets
+                : targets.filter((target) => target.canRequest);
+              const canRequestAll = linkedTargets.length > 0 && !isRequestingAll;
+              const authorLabel = normalizeAuthorDisplay(item.author, item.title);
+              const editionLabel = describeEdition(item);
 
-                <div className="card__actions">
-                  <button
-                    type="button"
-                    className="action action--ghost"
-                    disabled={
-                      !canRequestAudio || audioState === "loading"
+              return (
+                <article
+                  key={item.key}
+                  className="card"
+                  style={{ animationDelay: `${Math.min(index, 10) * 60}ms` }}
+                  onClick={(event) => {
+                    if (
+                      !(event.target as HTMLElement).closest(
+                        "button, a, input, select, label, .popover"
+                      )
+                    ) {
+                      openBook(item.key);
                     }
-                    onClick={() => requestBook(item, "audio")}
-                  >
-                    {item.audio.alreadyAdded
-                      ? "Already added"
-                      : audioState === "loading"
-                      ? "Requesting..."
-                      : instanceLabels.audio}
-                  </button>
-                  {!item.audio.available && (
-                    <span className="status">Not available</span>
-                  )}
-                  {audioState === "success" && (
-                    <span className="status status--ok">Queued</span>
+                  }}
+                >
+                  <div className="card__header">
+                    {item.coverUrl ? (
+                      <img className="card__cover" src={item.coverUrl} alt="" loading="lazy" />
+                    ) : (
+                      <div className="card__cover card__cover--empty" aria-hidden="true" />
+                    )}
+                    <div className="card__meta">
+                      <h3>
+                        <a
+                          className="card__link"
+                          href={bookPath(item.key)}
+                          onClick={(event) => {
+                            event.preventDefault();
+                            openBook(item.key);
+                          }}
+                        >
+                          {item.title}
+                        </a>
+                      </h3>
+                      <p className="card__author">{authorLabel}</p>
+                      {editionLabel && <p className="card__edition">{editionLabel}</p>}
+                      <div className="card__ids">
+                        {item.isbn13 && <span>ISBN {item.isbn13}</span>}
+                        {item.goodreadsId && <span>GR {item.goodreadsId}</span>}
+                      </div>
+                    </div>
+                  </div>
+
+                  {targets.length > 1 && (
+                    <div className="card__actions">
+                      <button
+                        type="button"
+                        className="action action--accent"
+                        disabled={!canRequestAll}
+                        onClick={() =>
+                          requestLinked(
+                            item,
+                            linkedTargets.map((target) => target.instance.id)
+                          )
+                        }
+                      >
+                        {isRequestingAll
+                          ? "Requesting..."
+                          : failedTargets.length
+                          ? `Retry ${failedTargets
+                              .map((target) => target.instance.label)
+                              .join(" and ")}`
+                          : targets.length === 2
+                          ? "Request Both"
+                          : "Request All"}
+                      </button>
+                    </div>
                   )}
-                </div>
-              </article>
-            );
-          })}
-        </div>
-      </main>
+
+                  {targets.map((target, position) => (
+                    <div key={target.instance.id} className="card__actions">
+                      <div className="card__request">
+                        <button
+                          type="button"
+                          className={`action ${
+                            position === 0 ? "action--primary" : "action--ghost"
+                          }`}
+                          disabled={!target.canRequest || target.state === "loading"}
+                          onClick={() => requestBook(item, target.instance.id)}
+                        >
+                          {target.status?.alreadyAdded
+                            ? "Already added"
+                            : target.state === "loading"
+                            ? "Requesting..."
+                            : requestButtonLabel(target.instance, instances)}
+                        </button>
+                        <button
+                          type="button"
+                          className="action action--ghost card__advanced"
+                          disabled={!target.canRequest || target.state === "loading"}
+                          aria-expanded={optionsFor === target.key}
+                          title="Advanced request options"
+                          onClick={() =>
+                            setOptionsFor((prev) =>
+                              prev === target.key ? null : target.key
+                            )
+                          }
+                        >
+                          ⋯
+                        </button>
+                      </div>
+                      {optionsFor === target.key && (
+                        <RequestOptions
+                          api={callApi}
+                          instance={target.instance}
+                          busy={target.state === "loading"}
+                          onSubmit={(overrides) =>
+                            requestBook(item, target.instance.id, overrides)
+                          }
+                          onClose={() => setOptionsFor(null)}
+                        />
+                      )}
+                      {target.offline ? (
+                        <span className="status status--error">Instance offline</span>
+                      ) : (
+                        !target.status?.available && (
+                          <span className="status">Not available</span>
+                        )
+                      )}
+                      {target.state === "success" && (
+                        <span
+                          className={`status ${
+                            tracked[target.key]?.stage === "failed"
+                              ? "status--error"
+                              : "status--ok"
+                          }`}
+                        >
+                          {tracked[target.key]?.status === "queued"
+                            ? "Waiting for Readarr"
+                            : (tracked[target.key] &&
+                                stageLabel(tracked[target.key]!, target.instance.kind)) ||
+                              "Queued"}
+                        </span>
+                      )}
+                      {target.state === "success" && tracked[target.key]?.outcome && (
+                        <span className="status">
+                          {describeOutcome(tracked[target.key]!.outcome!)}
+                        </span>
+                      )}
+                      {target.state === "pending" && (
+                        <span className="status">Awaiting approval</span>
+                      )}
+                      {target.state === "error" && requestErrors[target.key] && (
+                        <span className="status status--error">
+                          {requestErrors[target.key]}
+                        </span>
+                      )}
+                    </div>
+                  ))}
+                </article>
+              );
+            })}
+          </div>
+        </main>
+      )}
     </div>
   );
 };
@@ -0,0 +1,117 @@
+import { useState } from "react";
+import { ApiCaller } from "./api";
+import { AuthorItem, FollowMonitor, FollowRecord, followMonitorLabels } from "./books";
+import { InstanceSummary } from "./instances";
+
+type AuthorCardProps = {
+  api: ApiCaller;
+  author: AuthorItem;
+  instances: InstanceSummary[];
+  offline: Record<string, string>;
+};
+
+type FollowState = "idle" | "loading" | "followed";
+
+const AuthorCard = ({ api, author, instances, offline }: AuthorCardProps) => {
+  const [monitor, setMonitor] = useState<FollowMonitor>("future");
+  const [states, setStates] = useState<Record<string, FollowState>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const follow = async (instanceId: string) => {
+    const status = author.instances[instanceId];
+    setStates((prev) => ({ ...prev, [instanceId]: "loading" }));
+    setError(null);
+    try {
+      await api<{ follow: FollowRecord }>(
+        `/api/follows/${encodeURIComponent(instanceId)}`,
+        {
+          method: "POST",
+          body: {
+            author: status?.lookup,
+            existingId: status?.existingId,
+            monitor,
+            item: {
+              key: author.key,
+              name: author.name,
+              foreignAuthorId: author.foreignAuthorId
+            }
+          }
+        },
+        "Unable to follow this author."
+      );
+      setStates((prev) => ({ ...prev, [instanceId]: "followed" }));
+    } catch (err) {
+      setStates((prev) => ({ ...prev, [instanceId]: "idle" }));
+      setError(err instanceof Error ? err.message : "Unable to follow this author.");
+    }
+  };
+
+  return (
+    <article className="author">
+      {author.imageUrl ? (
+        <img className="author__photo" src={author.imageUrl} alt="" loading="lazy" />
+      ) : (
+        <div className="author__photo author__photo--empty" aria-hidden="true" />
+      )}
+      <div className="author__meta">
+        <h3>{author.name}</h3>
+        {!!author.bookCount && (
+          <span className="card__ids">
+            {author.bookCount} book{author.bookCount === 1 ? "" : "s"}
+          </span>
+        )}
+        {author.overview && <p className="author__overview">{author.overview}</p>}
+
+        <div className="author__follow">
+          <select
+            value={monitor}
+            aria-label={`Books to monitor for ${author.name}`}
+            onChange={(event) => setMonitor(event.target.value as FollowMonitor)}
+          >
+            {(Object.keys(followMonitorLabels) as FollowMonitor[]).map((value) => (
+              <option key={value} value={value}>
+                {followMonitorLabels[value]}
+              </option>
+            ))}
+          </select>
+          {instances.map((instance) => {
+            const status = author.instances[instance.id];
+            const state = states[instance.id] || "idle";
+            const following =
+              state === "followed" ||
+              Boolean(status?.monitored && status.monitorNewItems === "all");
+            if (offline[instance.id] || status?.offline) {
+              return (
+                <span key={instance.id} className="status status--error">
+                  {instance.label}: offline
+                </span>
+              );
+            }
+            return (
+              <button
+                key={instance.id}
+                type="button"
+                className="action action--ghost"
+                disabled={
+                  !status?.available ||
+                  state === "loading" ||
+                  (!status.lookup && !status.existingId)
+                }
+                onClick={() => follow(instance.id)}
+              >
+                {state === "loading"
+                  ? "Following..."
+                  : following
+                  ? `Following on ${instance.label}`
+                  : `Follow on ${instance.label}`}
+              </button>
+            );
+          })}
+        </div>
+        {error && <span className="status status--error">{error}</span>}
+      </div>
+    </article>
+  );
+};
+
+export default AuthorCard;
@@ -0,0 +1,258 @@
+import { useCallback, useEffect, useState } from "react";
+import { ApiCaller } from "./api";
+import { BookDetail as Book, BookEdition, describeEdition } from "./books";
+import { InstanceSummary } from "./instances";
+import { RequestState } from "./requests";
+import SeriesPanel from "./SeriesPanel";
+
+type BookDetailProps = {
+  api: ApiCaller;
+  bookKey: string;
+  instances: InstanceSummary[];
+  stateFor: (instanceId: string) => RequestState;
+  onRequest: (book: Book, instanceId: string, editionId?: string) => Promise<void>;
+  onBack: () => void;
+};
+
+type DetailResponse = {
+  book: Book;
+  errors: Record<string, string>;
+};
+
+const formatDate = (value: string): string =>
+  new Date(value).toLocaleString(undefined, {
+    dateStyle: "medium",
+    timeStyle: "short"
+  });
+
+const formatSize = (bytes?: number): string => {
+  if (!bytes) {
+    return "None";
+  }
+  const units = ["B", "KB", "MB", "GB"];
+  const index = Math.min(Math.floor(Math.log(bytes) / Math.log(1024)), units.length - 1);
+  const value = bytes / 1024 ** index;
+  return `${value >= 100 || index === 0 ? value.toFixed(0) : value.toFixed(1)} ${units[index]}`;
+};
+
+const editionLabel = (edition: BookEdition): string =>
+  [
+    edition.format || (edition.isEbook ? "Ebook" : ""),
+    edition.publisher,
+    edition.releaseDate ? String(new Date(edition.releaseDate).getUTCFullYear()) : "",
+    edition.language,
+    edition.isbn13 ? `ISBN ${edition.isbn13}` : edition.asin ? `ASIN ${edition.asin}` : ""
+  ]
+    .filter(Boolean)
+    .join(" · ") || edition.title;
+
+const BookDetail = ({
+  api,
+  bookKey,
+  instances,
+  stateFor,
+  onRequest,
+  onBack
+}: BookDetailProps) => {
+  const [book, setBook] = useState<Book | null>(null);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [editions, setEditions] = useState<Record<string, string>>({});
+
+  const loadBook = useCallback(async () => {
+    try {
+      const payload = await api<DetailResponse>(
+        `/api/books/${encodeURIComponent(bookKey)}`,
+        {},
+        "Unable to load this book."
+      );
+      setBook(payload.book);
+      setErrors(payload.errors);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to load this book.");
+    }
+  }, [api, bookKey]);
+
+  useEffect(() => {
+    setBook(null);
+    setEditions({});
+    loadBook();
+  }, [loadBook]);
+
+  const handleRequest = async (instanceId: string) => {
+    if (!book) {
+      return;
+    }
+    await onRequest(book, instanceId, editions[instanceId] || undefined);
+    await loadBook();
+  };
+
+  const editionSummary = book ? describeEdition(book) : "";
+
+  return (
+    <main className="detail">
+      <button type="button" className="button button--ghost" onClick={onBack}>
+        ← Back to results
+      </button>
+
+      {error && <div className="error">{error}</div>}
+      {!book && !error && <div className="empty">Loading...</div>}
+
+      {book && (
+        <>
+          <header className="detail__header">
+            {book.coverUrl ? (
+              <img className="detail__cover" src={book.coverUrl} alt="" />
+            ) : (
+              <div className="detail__cover detail__cover--empty" aria-hidden="true" />
+            )}
+            <div className="detail__meta">
+              <h2>{book.title}</h2>
+              <p className="card__author">{book.author}</p>
+              {editionSummary && <p className="card__edition">{editionSummary}</p>}
+              <div className="card__ids">
+                {book.isbn13 && <span>ISBN {book.isbn13}</span>}
+                {book.goodreadsId && <span>GR {book.goodreadsId}</span>}
+                {!!book.pageCount && <span>{book.pageCount} pages</span>}
+                {book.rating && (
+                  <span>
+                    {book.rating.value.toFixed(1)} ★ ({book.rating.votes.toLocaleString()})
+                  </span>
+                )}
+              </div>
+              {book.seriesLinks.length > 0 && (
+                <ul className="detail__series">
+                  {book.seriesLinks.map((series) => (
+                    <li key={`${series.title}#${series.position || ""}`}>
+                      {series.title}
+                      {series.position && ` #${series.position}`}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </header>
+
+          {book.overview && <p className="detail__overview">{book.overview}</p>}
+
+          {book.seriesLinks.map((series) => (
+            <SeriesPanel
+              key={series.title}
+              api={api}
+              bookKey={bookKey}
+              seriesTitle={series.title}
+              instances={instances}
+            />
+          ))}
+
+          <div className="detail__instances">
+            {instances.map((instance) => {
+              const status = book.instances[instance.id];
+              const state = stateFor(instance.id);
+              const offline = Boolean(errors[instance.id] || status?.offline);
+              const chosen = editions[instance.id] || "";
+              const canRequest =
+                !offline &&
+                Boolean(status?.available) &&
+                (!status.alreadyAdded || Boolean(chosen)) &&
+                state !== "loading" &&
+                state !== "pending" &&
+                (!!status.lookup || !!status.existingId);
+
+              return (
+                <section key={instance.id} className="detail__instance">
+                  <h3>{instance.label}</h3>
+                  {offline ? (
+                    <span className="status status--error">
+                      {errors[instance.id] || "Instance offline"}
+                    </span>
+                  ) : !status?.available ? (
+                    <span className="status">Not available</span>
+                  ) : (
+                    <>
+                      <dl className="detail__facts">
+                        <dt>In library</dt>
+                        <dd>{status.existingId ? "Yes" : "No"}</dd>
+                        <dt>Monitored</dt>
+                        <dd>{status.monitored ? "Yes" : "No"}</dd>
+                        <dt>File</dt>
+                        <dd>
+                          {status.hasFile
+                            ? `${status.fileCount || 1} file${
+                                (status.fileCount || 1) === 1 ? "" : "s"
+                              }, ${formatSize(status.sizeOnDisk)}`
+                            : "Missing"}
+                        </dd>
+                        <dt>Last search</dt>
+                        <dd>
+                          {status.lastSearchTime
+                            ? formatDate(status.lastSearchTime)
+                            : "Never"}
+                        </dd>
+                      </dl>
+
+                      {status.editions.length > 0 && (
+                        <ul className="detail__editions">
+                          {status.editions.map((edition) => (
+                            <li key={edition.id}>
+                              <span>{editionLabel(edition)}</span>
+                              {edition.monitored && (
+                                <span className="status status--ok">Monitored</span>
+                              )}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+
+                      <div className="detail__request">
+                        {status.editions.length > 1 && (
+                          <select
+                            value={chosen}
+                            aria-label={`${instance.label} edition`}
+                            onChange={(event) =>
+                              setEditions((prev) => ({
+                                ...prev,
+                                [instance.id]: event.target.value
+                              }))
+                            }
+                          >
+                            <option value="">Default edition</option>
+                            {status.editions.map((edition) => (
+                              <option key={edition.id} value={edition.id}>
+                                {editionLabel(edition)}
+                              </option>
+                            ))}
+                          </select>
+                        )}
+                        <button
+                          type="button"
+                          className="action action--primary"
+                          disabled={!canRequest}
+                          onClick={() => handleRequest(instance.id)}
+                        >
+                          {state === "loading"
+                            ? "Requesting..."
+                            : status.alreadyAdded && !chosen
+                            ? "Already added"
+                            : chosen
+                            ? "Request this edition"
+                            : `Request ${instance.label}`}
+                        </button>
+                        {state === "pending" && (
+                          <span className="status">Awaiting approval</span>
+                        )}
+                      </div>
+                    </>
+                  )}
+                </section>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </main>
+  );
+};
+
+export default BookDetail;
@@ -0,0 +1,82 @@
+import { useCallback, useEffect, useState } from "react";
+import { ApiCaller } from "./api";
+import { FollowRecord, followMonitorLabels } from "./books";
+import { InstanceSummary, findInstanceSummary } from "./instances";
+
+type FollowsViewProps = {
+  api: ApiCaller;
+  isAdmin: boolean;
+  instances: InstanceSummary[];
+};
+
+const formatDate = (value: string): string =>
+  new Date(value).toLocaleString(undefined, {
+    dateStyle: "medium",
+    timeStyle: "short"
+  });
+
+const FollowsView = ({ api, isAdmin, instances }: FollowsViewProps) => {
+  const [follows, setFollows] = useState<FollowRecord[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadFollows = useCallback(async () => {
+    try {
+      const payload = await api<{ follows: FollowRecord[] }>(
+        `/api/follows?scope=${isAdmin ? "all" : "mine"}`,
+        {},
+        "Unable to load followed authors."
+      );
+      setFollows(payload.follows);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to load followed authors.");
+    }
+  }, [api, isAdmin]);
+
+  useEffect(() => {
+    loadFollows();
+  }, [loadFollows]);
+
+  return (
+    <section className="requests">
+      <div className="results__header">
+        <h2>Followed authors</h2>
+        {follows && (
+          <span>
+            {follows.length} author{follows.length === 1 ? "" : "s"}
+          </span>
+        )}
+      </div>
+
+      {error && <div className="error">{error}</div>}
+
+      {follows && follows.length === 0 && (
+        <div className="empty">
+          <p>Follow an author from the search results to get their new books.</p>
+        </div>
+      )}
+
+      <ul className="requests__list">
+        {follows?.map((follow) => (
+          <li key={follow.id} className="requests__row">
+            <div className="requests__book">
+              <strong>{follow.authorName}</strong>
+              <span>{followMonitorLabels[follow.monitor]}</span>
+            </div>
+            <div className="requests__meta">
+              <span>
+                {findInstanceSummary(instances, follow.instance)?.label || follow.instance}
+              </span>
+              {isAdmin && <span>{follow.username}</span>}
+            </div>
+            <div className="requests__status">
+              <span>{formatDate(follow.updatedAt)}</span>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+};
+
+export default FollowsView;
@@ -0,0 +1,319 @@
+import { useEffect, useMemo, useState } from "react";
+import { ApiCaller } from "./api";
+import {
+  ImportJob,
+  ImportMatchStatus,
+  ImportOutcome,
+  importOutcomeLabels,
+  importStatusLabels
+} from "./imports";
+import { InstanceSummary } from "./instances";
+
+type ImportViewProps = {
+  api: ApiCaller;
+  instances: InstanceSummary[];
+};
+
+const POLL_MS = 1500;
+
+const matchClass = (status: ImportMatchStatus): string =>
+  status === "matched"
+    ? "status status--ok"
+    : status === "error"
+    ? "status status--error"
+    : "status";
+
+const outcomeClass = (status: ImportOutcome["status"]): string =>
+  status === "failed"
+    ? "status status--error"
+    : status === "requested"
+    ? "status status--ok"
+    : "status";
+
+const ImportView = ({ api, instances }: ImportViewProps) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [job, setJob] = useState<ImportJob | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const [filter, setFilter] = useState<ImportMatchStatus | "">("");
+  const [selected, setSelected] = useState<number[]>([]);
+  const [choices, setChoices] = useState<Record<number, Record<string, number>>>({});
+  const [targets, setTargets] = useState<string[]>(() =>
+    instances.map((instance) => instance.id)
+  );
+
+  const running = job?.status === "matching" || job?.status === "requesting";
+
+  useEffect(() => {
+    if (!job || !running) {
+      return undefined;
+    }
+    const timer = window.setTimeout(async () => {
+      try {
+        const payload = await api<{ job: ImportJob }>(
+          `/api/imports/${job.id}`,
+          {},
+          "Unable to load the import."
+        );
+        setJob(payload.job);
+        if (payload.job.status === "ready" && job.status === "matching") {
+          setSelected(
+            payload.job.rows.filter((row) => row.status === "matched").map((row) => row.row)
+          );
+        }
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Unable to load the import.");
+      }
+    }, POLL_MS);
+    return () => window.clearTimeout(timer);
+  }, [api, job, running]);
+
+  const handleUpload = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!file) {
+      return;
+    }
+    setUploading(true);
+    setError(null);
+    setSelected([]);
+    setChoices({});
+    try {
+      const payload = await api<{ job: ImportJob }>(
+        `/api/imports?name=${encodeURIComponent(file.name)}`,
+        { method: "POST", body: new Blob([await file.text()], { type: "text/csv" }) },
+        "Unable to read this CSV file."
+      );
+      setJob(payload.job);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to read this CSV file.");
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleRequest = async () => {
+    if (!job) {
+      return;
+    }
+    setError(null);
+    try {
+      const payload = await api<{ job: ImportJob }>(
+        `/api/imports/${job.id}/request`,
+        {
+          method: "POST",
+          body: {
+            instances: targets,
+            rows: selected.map((row) => ({ row, choices: choices[row] }))
+          }
+        },
+        "Unable to request these books."
+      );
+      setJob(payload.job);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to request these books.");
+    }
+  };
+
+  const toggleRow = (row: number) =>
+    setSelected((prev) =>
+      prev.includes(row) ? prev.filter((entry) => entry !== row) : [...prev, row]
+    );
+
+  const toggleTarget = (id: string) =>
+    setTargets((prev) =>
+      prev.includes(id) ? prev.filter((target) => target !== id) : [...prev, id]
+    );
+
+  const chooseCandidate = (row: number, instanceId: string, value: string) => {
+    setChoices((prev) => {
+      const next = { ...prev[row] };
+      if (value === "") {
+        delete next[instanceId];
+      } else {
+        next[instanceId] = Number(value);
+      }
+      return { ...prev, [row]: next };
+    });
+    if (value !== "") {
+      setSelected((prev) => (prev.includes(row) ? prev : [...prev, row]));
+    }
+  };
+
+  const counts = useMemo(() => {
+    const totals: Partial<Record<ImportMatchStatus, number>> = {};
+    for (const row of job?.rows || []) {
+      totals[row.status] = (totals[row.status] || 0) + 1;
+    }
+    return totals;
+  }, [job]);
+
+  const rows = (job?.rows || []).filter((row) => !filter || row.status === filter);
+  const instanceLabel = (id: string) =>
+    instances.find((instance) => instance.id === id)?.label || id;
+
+  return (
+    <section className="requests">
+      <div className="results__header">
+        <h2>Import a reading list</h2>
+        {job && (
+          <span>
+            {job.fileName || "CSV"} · {job.format === "goodreads" ? "Goodreads" : "StoryGraph"}
+          </span>
+        )}
+      </div>
+
+      <form className="requests__filters" onSubmit={handleUpload}>
+        <input
+          type="file"
+          accept=".csv,text/csv"
+          onChange={(event) => setFile(event.target.files?.[0] || null)}
+        />
+        <button
+          type="submit"
+          className="action action--primary"
+          disabled={!file || uploading || running}
+        >
+          {uploading ? "Uploading..." : "Check books"}
+        </button>
+      </form>
+
+      {error && <div className="error">{error}</div>}
+
+      {!job && (
+        <div className="empty">
+          <p>
+            Upload a Goodreads or StoryGraph CSV export to see which books can be
+            requested before anything is sent to Readarr.
+          </p>
+        </div>
+      )}
+
+      {job && running && (
+        <div className="import__progress">
+          <span>
+            {job.status === "matching" ? "Matching" : "Requesting"} {job.processed} of{" "}
+            {job.total}
+          </span>
+          <progress
+            className="requests__progress"
+            value={job.processed}
+            max={Math.max(job.total, 1)}
+          />
+        </div>
+      )}
+
+      {job && job.rows.length > 0 && (
+        <>
+          <div className="requests__filters">
+            <select
+              value={filter}
+              onChange={(event) => setFilter(event.target.value as ImportMatchStatus | "")}
+            >
+              <option value="">All rows ({job.rows.length})</option>
+              {(Object.keys(importStatusLabels) as ImportMatchStatus[]).map((status) => (
+                <option key={status} value={status}>
+                  {importStatusLabels[status]} ({counts[status] || 0})
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <ul className="requests__list">
+            {rows.map((row) => (
+              <li key={row.row} className="requests__row import__row">
+                <input
+                  type="checkbox"
+                  aria-label={`Select ${row.title}`}
+                  checked={selected.includes(row.row)}
+                  disabled={
+                    row.status === "owned" ||
+                    row.status === "not_found" ||
+                    row.status === "error"
+                  }
+                  onChange={() => toggleRow(row.row)}
+                />
+                <div className="requests__book">
+                  <strong>{row.title}</strong>
+                  <span>{row.author}</span>
+                  {row.shelf && <span>{row.shelf}</span>}
+                </div>
+                <div className="requests__status">
+                  {instances.map((instance) => {
+                    const match = row.instances[instance.id];
+                    if (!match) {
+                      return null;
+                    }
+                    return (
+                      <div key={instance.id} className="import__match">
+                        <span className={matchClass(match.status)}>
+                          {instance.label}: {importStatusLabels[match.status]}
+                          {match.error && ` (${match.error})`}
+                        </span>
+                        {match.status === "ambiguous" && match.candidates && (
+                          <select
+                            value={choices[row.row]?.[instance.id] ?? ""}
+                            aria-label={`${instance.label} match for ${row.title}`}
+                            onChange={(event) =>
+                              chooseCandidate(row.row, instance.id, event.target.value)
+                            }
+                          >
+                            <option value="">Pick a book</option>
+                            {match.candidates.map((candidate, index) => (
+                              <option key={candidate.key} value={index}>
+                                {candidate.title} · {candidate.author}
+                                {candidate.year ? ` (${candidate.year})` : ""}
+                              </option>
+                            ))}
+                          </select>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </li>
+            ))}
+          </ul>
+
+          <div className="series__request">
+            {instances.map((instance) => (
+              <label key={instance.id} className="toggle">
+                <input
+                  type="checkbox"
+                  checked={targets.includes(instance.id)}
+                  onChange={() => toggleTarget(instance.id)}
+                />
+                <span>{instance.label}</span>
+              </label>
+            ))}
+            <button
+              type="button"
+              className="action action--accent"
+              disabled={running || !selected.length || !targets.length}
+              onClick={handleRequest}
+            >
+              Request {selected.length} book{selected.length === 1 ? "" : "s"}
+            </button>
+          </div>
+        </>
+      )}
+
+      {job && job.outcomes.length > 0 && (
+        <ul className="series__outcomes">
+          {job.outcomes.map((outcome) => (
+            <li key={`${outcome.row}@${outcome.instance}`}>
+              <span>
+                {outcome.title} · {instanceLabel(outcome.instance)}
+              </span>
+              <span className={outcomeClass(outcome.status)}>
+                {importOutcomeLabels[outcome.status]}
+                {outcome.error && `: ${outcome.error}`}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+export default ImportView;
@@ -0,0 +1,162 @@
+import { useCallback, useEffect, useState } from "react";
+import { ApiCaller } from "./api";
+
+type ProfileField = "rootFolderPath" | "qualityProfileId" | "metadataProfileId";
+
+type InstanceProfilesProps = {
+  api: ApiCaller;
+  instanceId: string;
+  values: Record<ProfileField, string>;
+  onChange: (field: ProfileField, value: string) => void;
+};
+
+type ProfilesResponse = {
+  rootFolders: { path: string; name?: string; freeSpace?: number }[];
+  qualityProfiles: { id: number; name: string }[];
+  metadataProfiles: { id: number; name: string }[];
+};
+
+const formatSpace = (bytes?: number): string => {
+  if (!bytes) {
+    return "";
+  }
+  const gigabytes = bytes / 1024 ** 3;
+  return ` (${gigabytes >= 100 ? gigabytes.toFixed(0) : gigabytes.toFixed(1)} GB free)`;
+};
+
+const InstanceProfiles = ({ api, instanceId, values, onChange }: InstanceProfilesProps) => {
+  const [profiles, setProfiles] = useState<ProfilesResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadProfiles = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const payload = await api<ProfilesResponse>(
+        `/api/settings/instances/${encodeURIComponent(instanceId)}/profiles`,
+        {},
+        "Unable to load folders and profiles."
+      );
+      setProfiles(payload);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Unable to load folders and profiles."
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [api, instanceId]);
+
+  useEffect(() => {
+    loadProfiles();
+  }, [loadProfiles]);
+
+  const rootKnown = Boolean(
+    profiles?.rootFolders.some((folder) => folder.path === values.rootFolderPath)
+  );
+  const qualityKnown = Boolean(
+    profiles?.qualityProfiles.some(
+      (profile) => String(profile.id) === values.qualityProfileId
+    )
+  );
+  const metadataKnown = Boolean(
+    profiles?.metadataProfiles.some(
+      (profile) => String(profile.id) === values.metadataProfileId
+    )
+  );
+  const warnings = profiles
+    ? [
+        values.rootFolderPath && !rootKnown
+          ? `Root folder "${values.rootFolderPath}" no longer exists in Readarr.`
+          : "",
+        values.qualityProfileId && !qualityKnown
+          ? `Quality profile ${values.qualityProfileId} no longer exists in Readarr.`
+          : "",
+        values.metadataProfileId && !metadataKnown
+          ? `Metadata profile ${values.metadataProfileId} no longer exists in Readarr.`
+          : ""
+      ].filter(Boolean)
+    : [];
+
+  const missingOption = (value: string, known: boolean) =>
+    value && profiles && !known ? (
+      <option value={value}>{value} (missing in Readarr)</option>
+    ) : null;
+
+  return (
+    <div className="profiles">
+      <div className="field">
+        <label>Root folder</label>
+        <select
+          value={values.rootFolderPath}
+          onChange={(event) => onChange("rootFolderPath", event.target.value)}
+          disabled={!profiles}
+        >
+          <option value="">Readarr default</option>
+          {missingOption(values.rootFolderPath, rootKnown)}
+          {profiles?.rootFolders.map((folder) => (
+            <option key={folder.path} value={folder.path}>
+              {folder.path}
+              {formatSpace(folder.freeSpace)}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="field__row">
+        <div className="field">
+          <label>Quality profile</label>
+          <select
+            value={values.qualityProfileId}
+            onChange={(event) => onChange("qualityProfileId", event.target.value)}
+            disabled={!profiles}
+          >
+            <option value="">Readarr default</option>
+            {missingOption(values.qualityProfileId, qualityKnown)}
+            {profiles?.qualityProfiles.map((profile) => (
+              <option key={profile.id} value={String(profile.id)}>
+                {profile.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="field">
+          <label>Metadata profile</label>
+          <select
+            value={values.metadataProfileId}
+            onChange={(event) => onChange("metadataProfileId", event.target.value)}
+            disabled={!profiles}
+          >
+            <option value="">Readarr default</option>
+            {missingOption(values.metadataProfileId, metadataKnown)}
+            {profiles?.metadataProfiles.map((profile) => (
+              <option key={profile.id} value={String(profile.id)}>
+                {profile.name}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+      {warnings.map((warning) => (
+        <span key={warning} className="status status--error">
+          {warning}
+        </span>
+      ))}
+      {error && (
+        <div className="settings__panel-actions">
+          <span className="status status--error">{error}</span>
+          <button
+            type="button"
+            className="button button--ghost"
+            onClick={loadProfiles}
+            disabled={loading}
+          >
+            {loading ? "Loading..." : "Retry"}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InstanceProfiles;
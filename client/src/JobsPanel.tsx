@@ -0,0 +1,165 @@
+import { useCallback, useEffect, useState } from "react";
+import { ApiCaller } from "./api";
+
+type JobsPanelProps = {
+  api: ApiCaller;
+};
+
+type JobStatus = "queued" | "running" | "failed" | "succeeded" | "cancelled";
+
+type QueueJob = {
+  id: string;
+  kind: "request" | "command";
+  instance: string;
+  label: string;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  nextRunAt: string;
+  lastError?: string;
+  updatedAt: string;
+};
+
+type JobsResponse = {
+  jobs: QueueJob[];
+  counts: Record<JobStatus, number>;
+};
+
+const statusLabels: Record<JobStatus, string> = {
+  queued: "Queued",
+  running: "Running",
+  failed: "Failed",
+  succeeded: "Done",
+  cancelled: "Cancelled"
+};
+
+const formatDate = (value: string): string =>
+  new Date(value).toLocaleString(undefined, {
+    dateStyle: "medium",
+    timeStyle: "short"
+  });
+
+const JobsPanel = ({ api }: JobsPanelProps) => {
+  const [data, setData] = useState<JobsResponse | null>(null);
+  const [filter, setFilter] = useState<JobStatus | "">("failed");
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadJobs = useCallback(async () => {
+    try {
+      setData(
+        await api<JobsResponse>(
+          `/api/jobs${filter ? `?status=${filter}` : ""}`,
+          {},
+          "Unable to load background jobs."
+        )
+      );
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to load background jobs.");
+    }
+  }, [api, filter]);
+
+  useEffect(() => {
+    loadJobs();
+  }, [loadJobs]);
+
+  const handleAction = async (job: QueueJob, action: "retry" | "cancel") => {
+    setBusyId(job.id);
+    setError(null);
+    try {
+      await api(
+        `/api/jobs/${job.id}/${action}`,
+        { method: "POST" },
+        action === "retry" ? "Unable to retry this job." : "Unable to cancel this job."
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Job update failed.");
+    } finally {
+      setBusyId(null);
+      await loadJobs();
+    }
+  };
+
+  return (
+    <div className="library">
+      <div>
+        <h3>Background jobs</h3>
+        <p>
+          Requests and searches that Readarr could not take right away are retried
+          with increasing delays, including after a restart.
+        </p>
+      </div>
+      <div className="library__row">
+        <select
+          value={filter}
+          aria-label="Job status"
+          onChange={(event) => setFilter(event.target.value as JobStatus | "")}
+        >
+          <option value="">All jobs</option>
+          {(Object.keys(statusLabels) as JobStatus[]).map((status) => (
+            <option key={status} value={status}>
+              {statusLabels[status]} ({data?.counts[status] ?? 0})
+            </option>
+          ))}
+        </select>
+        <button type="button" className="button button--ghost" onClick={loadJobs}>
+          Refresh
+        </button>
+      </div>
+      {data?.jobs.length === 0 && <p>No jobs.</p>}
+      {data?.jobs.map((job) => (
+        <div key={job.id} className="library__row">
+          <strong>{job.label}</strong>
+          <span>
+            {job.kind === "request" ? "Request" : "Search"} · {job.instance}
+          </span>
+          <span
+            className={`status${
+              job.status === "failed"
+                ? " status--error"
+                : job.status === "succeeded"
+                ? " status--ok"
+                : ""
+            }`}
+          >
+            {statusLabels[job.status]}
+          </span>
+          <span className="library__meta">
+            {job.status === "queued"
+              ? `Attempt ${job.attempts + 1} of ${job.maxAttempts} at ${formatDate(
+                  job.nextRunAt
+                )}`
+              : `${job.attempts} attempt${job.attempts === 1 ? "" : "s"}, ${formatDate(
+                  job.updatedAt
+                )}`}
+          </span>
+          {job.lastError && <span className="library__meta">{job.lastError}</span>}
+          {(job.status === "failed" || job.status === "cancelled") && (
+            <button
+              type="button"
+              className="button button--ghost"
+              disabled={busyId === job.id}
+              onClick={() => handleAction(job, "retry")}
+            >
+              Retry
+            </button>
+          )}
+          {job.status === "queued" && (
+            <button
+              type="button"
+              className="button button--ghost"
+              disabled={busyId === job.id}
+              onClick={() => handleAction(job, "cancel")}
+            >
+              Cancel
+            </button>
+          )}
+        </div>
+      ))}
+      {error && <span className="status status--error">{error}</span>}
+    </div>
+  );
+};
+
+export default JobsPanel;
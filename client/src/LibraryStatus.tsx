@@ -0,0 +1,152 @@
+import { useCallback, useEffect, useState } from "react";
+import { ApiCaller } from "./api";
+
+type LibraryStatusProps = {
+  api: ApiCaller;
+};
+
+type InstanceLibrary = {
+  instance: string;
+  label: string;
+  size: number;
+  refreshing: boolean;
+  refreshedAt?: string;
+  error?: string;
+};
+
+type SearchCacheStats = {
+  size: number;
+  maxEntries: number;
+  ttlSeconds: number;
+  hits: number;
+  misses: number;
+};
+
+const formatDate = (value: string): string =>
+  new Date(value).toLocaleString(undefined, {
+    dateStyle: "medium",
+    timeStyle: "short"
+  });
+
+const LibraryStatus = ({ api }: LibraryStatusProps) => {
+  const [libraries, setLibraries] = useState<InstanceLibrary[]>([]);
+  const [cache, setCache] = useState<SearchCacheStats | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadStatus = useCallback(async () => {
+    try {
+      const payload = await api<{ instances: InstanceLibrary[] }>(
+        "/api/library",
+        {},
+        "Unable to load library status."
+      );
+      setLibraries(payload.instances);
+      setCache(
+        await api<SearchCacheStats>("/api/search/cache", {}, "Unable to load cache stats.")
+      );
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to load library status.");
+    }
+  }, [api]);
+
+  useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    setError(null);
+    try {
+      const payload = await api<{ instances: InstanceLibrary[] }>(
+        "/api/library/refresh",
+        { method: "POST" },
+        "Unable to refresh the library index."
+      );
+      setLibraries(payload.instances);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Unable to refresh the library index."
+      );
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  const handleClearCache = async () => {
+    try {
+      setCache(
+        await api<SearchCacheStats>(
+          "/api/search/cache",
+          { method: "DELETE" },
+          "Unable to clear the search cache."
+        )
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to clear the search cache.");
+    }
+  };
+
+  return (
+    <div className="library">
+      <div>
+        <h3>Library index</h3>
+        <p>
+          Search checks results against an in-memory copy of each Readarr
+          library, refreshed in the background and after every request.
+        </p>
+      </div>
+      {libraries.map((library) => (
+        <div key={library.instance} className="library__row">
+          <strong>{library.label}</strong>
+          <span>{library.size.toLocaleString()} books</span>
+          <span className="library__meta">
+            {library.refreshing
+              ? "Refreshing..."
+              : library.refreshedAt
+              ? `Refreshed ${formatDate(library.refreshedAt)}`
+              : "Not built yet"}
+          </span>
+          {library.error && (
+            <span className="status status--error">{library.error}</span>
+          )}
+        </div>
+      ))}
+      {cache && (
+        <div className="library__row">
+          <strong>Search cache</strong>
+          <span>
+            {cache.ttlSeconds > 0
+              ? `${cache.size} of ${cache.maxEntries} searches`
+              : "Disabled"}
+          </span>
+          <span className="library__meta">
+            {cache.hits} hits, {cache.misses} misses
+          </span>
+        </div>
+      )}
+      <div className="settings__panel-actions">
+        <button
+          type="button"
+          className="button button--ghost"
+          onClick={handleRefresh}
+          disabled={refreshing}
+        >
+          {refreshing ? "Refreshing..." : "Refresh now"}
+        </button>
+        <button
+          type="button"
+          className="button button--ghost"
+          onClick={handleClearCache}
+          disabled={!cache?.size}
+        >
+          Clear search cache
+        </button>
+        {error && <span className="status status--error">{error}</span>}
+      </div>
+    </div>
+  );
+};
+
+export default LibraryStatus;
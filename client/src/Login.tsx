@@ -0,0 +1,99 @@
+import { useEffect, useState } from "react";
+import { Session, apiRequest } from "./api";
+
+type LoginProps = {
+  onLogin: (session: Session) => void;
+};
+
+const Login = ({ onLogin }: LoginProps) => {
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [setupRequired, setSetupRequired] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    apiRequest<{ setupRequired: boolean }>(
+      "/api/auth/status",
+      {},
+      "Unable to reach the server."
+    )
+      .then((payload) => setSetupRequired(payload.setupRequired))
+      .catch((err) =>
+        setError(err instanceof Error ? err.message : "Unable to reach the server.")
+      );
+  }, []);
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      const session = await apiRequest<Session>(
+        setupRequired ? "/api/auth/setup" : "/api/auth/login",
+        { method: "POST", body: { username: username.trim(), password } },
+        setupRequired ? "Unable to create account." : "Login failed."
+      );
+      onLogin(session);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Login failed.");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <section className="login">
+      <p className="eyebrow">Readarr Request Hub</p>
+      <h2>{setupRequired ? "Create the admin account" : "Sign in"}</h2>
+      <p>
+        {setupRequired
+          ? "No accounts exist yet. The first account can change settings and invite others."
+          : "Sign in to search and request books."}
+      </p>
+
+      <form className="login__form" onSubmit={handleSubmit}>
+        <div className="field">
+          <label htmlFor="username">Username</label>
+          <input
+            id="username"
+            type="text"
+            autoComplete="username"
+            value={username}
+            onChange={(event) => setUsername(event.target.value)}
+          />
+        </div>
+        <div className="field">
+          <label htmlFor="password">Password</label>
+          <input
+            id="password"
+            type="password"
+            autoComplete={setupRequired ? "new-password" : "current-password"}
+            value={password}
+            onChange={(event) => setPassword(event.target.value)}
+          />
+          {setupRequired && (
+            <span className="field__hint">At least 8 characters.</span>
+          )}
+        </div>
+
+        {error && <div className="error">{error}</div>}
+
+        <button
+          type="submit"
+          className="button button--primary"
+          disabled={submitting || !username.trim() || !password}
+        >
+          {submitting
+            ? "Working..."
+            : setupRequired
+            ? "Create account"
+            : "Sign in"}
+        </button>
+      </form>
+    </section>
+  );
+};
+
+export default Login;
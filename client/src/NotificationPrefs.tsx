@@ -0,0 +1,103 @@
+import { useEffect, useState } from "react";
+import { ApiCaller, User } from "./api";
+import {
+  NotificationEvent,
+  allNotificationEvents,
+  notificationEventLabels
+} from "./notifications";
+
+type NotificationPrefsProps = {
+  api: ApiCaller;
+  isAdmin: boolean;
+};
+
+const NotificationPrefs = ({ api, isAdmin }: NotificationPrefsProps) => {
+  const events = isAdmin
+    ? allNotificationEvents
+    : allNotificationEvents.filter((event) => event !== "request.created");
+  const [selected, setSelected] = useState<NotificationEvent[]>(events);
+  const [email, setEmail] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    api<{ user: User }>("/api/auth/me", {}, "Unable to load your preferences.")
+      .then(({ user }) => {
+        if (user.notifications) {
+          setSelected(user.notifications.events);
+          setEmail(user.notifications.email || "");
+        }
+      })
+      .catch((err) =>
+        setNotice(
+          err instanceof Error ? err.message : "Unable to load your preferences."
+        )
+      );
+  }, [api]);
+
+  const toggle = (event: NotificationEvent) =>
+    setSelected((prev) =>
+      prev.includes(event) ? prev.filter((entry) => entry !== event) : [...prev, event]
+    );
+
+  const handleSave = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setSaving(true);
+    setNotice(null);
+    try {
+      await api(
+        "/api/auth/me/notifications",
+        { method: "PUT", body: { events: selected, email: email.trim() } },
+        "Unable to save preferences."
+      );
+      setNotice("Preferences saved.");
+    } catch (err) {
+      setNotice(err instanceof Error ? err.message : "Unable to save preferences.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <section className="settings">
+      <div className="settings__header">
+        <h2>Notifications</h2>
+        <p>Choose what you want to hear about. Channels are set up by an admin.</p>
+      </div>
+
+      {notice && <div className="notice">{notice}</div>}
+
+      <form className="login__form" onSubmit={handleSave}>
+        <div className="field">
+          <label>Email address (for email notifications)</label>
+          <input
+            type="email"
+            placeholder="you@example.com"
+            value={email}
+            onChange={(event) => setEmail(event.target.value)}
+          />
+        </div>
+        <div className="field">
+          <label>Events</label>
+          {events.map((entry) => (
+            <label key={entry} className="toggle">
+              <input
+                type="checkbox"
+                checked={selected.includes(entry)}
+                onChange={() => toggle(entry)}
+              />
+              <span>{notificationEventLabels[entry]}</span>
+            </label>
+          ))}
+        </div>
+        <div className="settings__actions">
+          <button type="submit" className="button button--primary" disabled={saving}>
+            {saving ? "Saving..." : "Save preferences"}
+          </button>
+        </div>
+      </form>
+    </section>
+  );
+};
+
+export default NotificationPrefs;
@@ -0,0 +1,282 @@
+import { useState } from "react";
+import { ApiCaller } from "./api";
+import {
+  NotificationChannel,
+  NotificationChannelType,
+  NotificationEvent,
+  allNotificationEvents,
+  channelTypeLabels,
+  notificationEventLabels
+} from "./notifications";
+
+type NotificationSettingsProps = {
+  api: ApiCaller;
+  channels: NotificationChannel[];
+  onChange: (channels: NotificationChannel[]) => void;
+};
+
+type TestState = {
+  state: "loading" | "success" | "error";
+  message?: string;
+};
+
+const newChannel = (type: NotificationChannelType): NotificationChannel => ({
+  type,
+  label: channelTypeLabels[type],
+  enabled: true,
+  events: [...allNotificationEvents],
+  url: type === "email" ? undefined : "",
+  smtp:
+    type === "email"
+      ? { host: "", port: 587, secure: false, username: "", password: "", from: "" }
+      : undefined
+});
+
+const NotificationSettings = ({
+  api,
+  channels,
+  onChange
+}: NotificationSettingsProps) => {
+  const [tests, setTests] = useState<Record<number, TestState>>({});
+
+  const updateChannel = (index: number, changes: Partial<NotificationChannel>) =>
+    onChange(
+      channels.map((channel, position) =>
+        position === index ? { ...channel, ...changes } : channel
+      )
+    );
+
+  const updateSmtp = (
+    index: number,
+    field: keyof NonNullable<NotificationChannel["smtp"]>,
+    value: string | boolean
+  ) => {
+    const current = channels[index].smtp || newChannel("email").smtp!;
+    updateChannel(index, { smtp: { ...current, [field]: value } });
+  };
+
+  const toggleEvent = (index: number, event: NotificationEvent) => {
+    const events = channels[index].events;
+    updateChannel(index, {
+      events: events.includes(event)
+        ? events.filter((entry) => entry !== event)
+        : [...events, event]
+    });
+  };
+
+  const handleTest = async (index: number) => {
+    setTests((prev) => ({ ...prev, [index]: { state: "loading" } }));
+    try {
+      await api(
+        "/api/settings/notifications/test",
+        { method: "POST", body: { channel: channels[index] } },
+        "Test notification failed."
+      );
+      setTests((prev) => ({ ...prev, [index]: { state: "success" } }));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Test notification failed.";
+      setTests((prev) => ({ ...prev, [index]: { state: "error", message } }));
+    }
+  };
+
+  return (
+    <div className="notifications">
+      <div>
+        <h3>Notifications</h3>
+        <p>
+          Channels deliver request events. Each user picks which events they
+          want under their own Notifications tab.
+        </p>
+      </div>
+
+      <div className="settings__grid">
+        {channels.map((channel, index) => {
+          const test = tests[index];
+          return (
+            <div key={channel.id || `new-${index}`} className="settings__panel">
+              <div className="field">
+                <label>Type</label>
+                <select
+                  value={channel.type}
+                  onChange={(event) =>
+                    onChange(
+                      channels.map((entry, position) =>
+                        position === index
+                          ? {
+                              ...newChannel(
+                                event.target.value as NotificationChannelType
+                              ),
+                              id: entry.id,
+                              events: entry.events
+                            }
+                          : entry
+                      )
+                    )
+                  }
+                >
+                  {(Object.keys(channelTypeLabels) as NotificationChannelType[]).map(
+                    (type) => (
+                      <option key={type} value={type}>
+                        {channelTypeLabels[type]}
+                      </option>
+                    )
+                  )}
+                </select>
+              </div>
+              <div className="field">
+                <label>Name</label>
+                <input
+                  type="text"
+                  value={channel.label}
+                  onChange={(event) => updateChannel(index, { label: event.target.value })}
+                />
+              </div>
+
+              {channel.type === "email" ? (
+                <>
+                  <div className="field">
+                    <label>SMTP host</label>
+                    <input
+                      type="text"
+                      placeholder="smtp.example.com"
+                      value={channel.smtp?.host || ""}
+                      onChange={(event) => updateSmtp(index, "host", event.target.value)}
+                    />
+                  </div>
+                  <div className="field__row">
+                    <div className="field">
+                      <label>Port</label>
+                      <input
+                        type="number"
+                        value={channel.smtp?.port ?? 587}
+                        onChange={(event) => updateSmtp(index, "port", event.target.value)}
+                      />
+                    </div>
+                    <label className="toggle">
+                      <input
+                        type="checkbox"
+                        checked={Boolean(channel.smtp?.secure)}
+                        onChange={(event) =>
+                          updateSmtp(index, "secure", event.target.checked)
+                        }
+                      />
+                      <span>TLS</span>
+                    </label>
+                  </div>
+                  <div className="field">
+                    <label>Username</label>
+                    <input
+                      type="text"
+                      value={channel.smtp?.username || ""}
+                      onChange={(event) =>
+                        updateSmtp(index, "username", event.target.value)
+                      }
+                    />
+                  </div>
+                  <div className="field">
+                    <label>Password</label>
+                    <input
+                      type="password"
+                      value={channel.smtp?.password || ""}
+                      onChange={(event) =>
+                        updateSmtp(index, "password", event.target.value)
+                      }
+                    />
+                  </div>
+                  <div className="field">
+                    <label>From address</label>
+                    <input
+                      type="text"
+                      placeholder="Book Requests <books@example.com>"
+                      value={channel.smtp?.from || ""}
+                      onChange={(event) => updateSmtp(index, "from", event.target.value)}
+                    />
+                  </div>
+                </>
+              ) : (
+                <div className="field">
+                  <label>URL</label>
+                  <input
+                    type="text"
+                    placeholder={
+                      channel.type === "apprise"
+                        ? "http://apprise:8000/notify/books"
+                        : "https://..."
+                    }
+                    value={channel.url || ""}
+                    onChange={(event) => updateChannel(index, { url: event.target.value })}
+                  />
+                </div>
+              )}
+
+              <div className="field">
+                <label>Events</label>
+                {allNotificationEvents.map((event) => (
+                  <label key={event} className="toggle">
+                    <input
+                      type="checkbox"
+                      checked={channel.events.includes(event)}
+                      onChange={() => toggleEvent(index, event)}
+                    />
+                    <span>{notificationEventLabels[event]}</span>
+                  </label>
+                ))}
+              </div>
+
+              <label className="toggle">
+                <input
+                  type="checkbox"
+                  checked={channel.enabled}
+                  onChange={(event) =>
+                    updateChannel(index, { enabled: event.target.checked })
+                  }
+                />
+                <span>Enabled</span>
+              </label>
+
+              <div className="settings__panel-actions">
+                <button
+                  type="button"
+                  className="button button--ghost"
+                  onClick={() => handleTest(index)}
+                  disabled={test?.state === "loading"}
+                >
+                  {test?.state === "loading" ? "Sending..." : "Send test notification"}
+                </button>
+                <button
+                  type="button"
+                  className="button button--ghost"
+                  onClick={() =>
+                    onChange(channels.filter((_, position) => position !== index))
+                  }
+                >
+                  Remove
+                </button>
+                {test?.state === "success" && (
+                  <span className="status status--ok">Sent</span>
+                )}
+                {test?.state === "error" && (
+                  <span className="status status--error">
+                    {test.message || "Failed"}
+                  </span>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="settings__panel-actions">
+        <button
+          type="button"
+          className="button button--ghost"
+          onClick={() => onChange([...channels, newChannel("discord")])}
+        >
+          Add channel
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default NotificationSettings;
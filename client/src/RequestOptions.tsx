@@ -0,0 +1,151 @@
+import { useEffect, useState } from "react";
+import { ApiCaller } from "./api";
+import { InstanceSummary } from "./instances";
+import { OverrideField, RequestOverrides } from "./requests";
+
+type RequestOptionsProps = {
+  api: ApiCaller;
+  instance: InstanceSummary;
+  busy: boolean;
+  onSubmit: (overrides: RequestOverrides) => void;
+  onClose: () => void;
+};
+
+type OptionsResponse = {
+  allowed: OverrideField[];
+  rootFolders?: { path: string; name?: string }[];
+  qualityProfiles?: { id: number; name: string }[];
+  metadataProfiles?: { id: number; name: string }[];
+  tags?: { id: number; label: string }[];
+};
+
+const RequestOptions = ({
+  api,
+  instance,
+  busy,
+  onSubmit,
+  onClose
+}: RequestOptionsProps) => {
+  const [options, setOptions] = useState<OptionsResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [rootFolderPath, setRootFolderPath] = useState("");
+  const [qualityProfileId, setQualityProfileId] = useState("");
+  const [metadataProfileId, setMetadataProfileId] = useState("");
+  const [tags, setTags] = useState<number[]>([]);
+
+  useEffect(() => {
+    api<OptionsResponse>(
+      `/api/instances/${encodeURIComponent(instance.id)}/options`,
+      {},
+      "Unable to load request options."
+    )
+      .then(setOptions)
+      .catch((err) =>
+        setError(err instanceof Error ? err.message : "Unable to load request options.")
+      );
+  }, [api, instance.id]);
+
+  const toggleTag = (id: number) =>
+    setTags((prev) =>
+      prev.includes(id) ? prev.filter((tag) => tag !== id) : [...prev, id]
+    );
+
+  const handleSubmit = () =>
+    onSubmit({
+      rootFolderPath: rootFolderPath || undefined,
+      qualityProfileId: qualityProfileId ? Number(qualityProfileId) : undefined,
+      metadataProfileId: metadataProfileId ? Number(metadataProfileId) : undefined,
+      tags: tags.length ? tags : undefined
+    });
+
+  return (
+    <div className="popover" role="dialog" aria-label={`${instance.label} options`}>
+      <strong>{instance.label} options</strong>
+      {error && <span className="status status--error">{error}</span>}
+      {!options && !error && <span className="status">Loading...</span>}
+      {options && !options.allowed.length && (
+        <span className="status">No request options are enabled.</span>
+      )}
+
+      {options?.rootFolders && (
+        <div className="field">
+          <label>Root folder</label>
+          <select
+            value={rootFolderPath}
+            onChange={(event) => setRootFolderPath(event.target.value)}
+          >
+            <option value="">Default</option>
+            {options.rootFolders.map((folder) => (
+              <option key={folder.path} value={folder.path}>
+                {folder.name ? `${folder.name} (${folder.path})` : folder.path}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+      {options?.qualityProfiles && (
+        <div className="field">
+          <label>Quality profile</label>
+          <select
+            value={qualityProfileId}
+            onChange={(event) => setQualityProfileId(event.target.value)}
+          >
+            <option value="">Default</option>
+            {options.qualityProfiles.map((profile) => (
+              <option key={profile.id} value={String(profile.id)}>
+                {profile.name}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+      {options?.metadataProfiles && (
+        <div className="field">
+          <label>Metadata profile</label>
+          <select
+            value={metadataProfileId}
+            onChange={(event) => setMetadataProfileId(event.target.value)}
+          >
+            <option value="">Default</option>
+            {options.metadataProfiles.map((profile) => (
+              <option key={profile.id} value={String(profile.id)}>
+                {profile.name}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+      {options?.tags && options.tags.length > 0 && (
+        <div className="field">
+          <label>Tags</label>
+          {options.tags.map((tag) => (
+            <label key={tag.id} className="toggle">
+              <input
+                type="checkbox"
+                checked={tags.includes(tag.id)}
+                onChange={() => toggleTag(tag.id)}
+              />
+              <span>{tag.label}</span>
+            </label>
+          ))}
+        </div>
+      )}
+
+      <div className="popover__actions">
+        <button
+          type="button"
+          className="button button--primary"
+          onClick={handleSubmit}
+          disabled={busy || !options}
+        >
+          {busy ? "Requesting..." : "Request"}
+        </button>
+        <button type="button" className="button button--ghost" onClick={onClose}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RequestOptions;
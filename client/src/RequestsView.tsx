@@ -0,0 +1,340 @@
+import { useCallback, useEffect, useState } from "react";
+import { ApiCaller } from "./api";
+import { InstanceSummary, findInstanceSummary } from "./instances";
+import {
+  RequestPage,
+  RequestRecord,
+  RequestStatus,
+  canCancelRequest,
+  describeOutcome,
+  isActiveRequest,
+  stageLabel
+} from "./requests";
+
+type RequestsViewProps = {
+  api: ApiCaller;
+  mode: "mine" | "all" | "approvals";
+  instances: InstanceSummary[];
+  isAdmin: boolean;
+};
+
+const PAGE_SIZE = 20;
+
+const statusLabels: Record<RequestStatus, string> = {
+  pending: "Awaiting approval",
+  rejected: "Rejected",
+  queued: "Waiting for Readarr",
+  submitted: "Sent to Readarr",
+  failed: "Failed",
+  cancelled: "Cancelled"
+};
+
+const REFRESH_MS = 30_000;
+
+const statusClass = (record: RequestRecord): string => {
+  if (
+    record.status === "failed" ||
+    record.status === "rejected" ||
+    record.stage === "failed"
+  ) {
+    return "status status--error";
+  }
+  return record.status === "pending" ||
+    record.status === "queued" ||
+    record.status === "cancelled"
+    ? "status"
+    : "status status--ok";
+};
+
+const formatDate = (value: string): string =>
+  new Date(value).toLocaleString(undefined, {
+    dateStyle: "medium",
+    timeStyle: "short"
+  });
+
+const RequestsView = ({ api, mode, instances, isAdmin }: RequestsViewProps) => {
+  const scope = mode === "mine" ? "mine" : "all";
+  const [page, setPage] = useState(1);
+  const [status, setStatus] = useState("");
+  const [instance, setInstance] = useState("");
+  const [text, setText] = useState("");
+  const [data, setData] = useState<RequestPage | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadRequests = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    const params = new URLSearchParams({
+      scope,
+      page: String(page),
+      pageSize: String(PAGE_SIZE)
+    });
+    if (mode === "approvals") {
+      params.set("status", "pending");
+    } else if (status) {
+      params.set("status", status);
+    }
+    if (instance) {
+      params.set("instance", instance);
+    }
+    if (text.trim()) {
+      params.set("q", text.trim());
+    }
+
+    try {
+      const payload = await api<RequestPage>(
+        `/api/requests?${params.toString()}`,
+        {},
+        "Unable to load requests."
+      );
+      setData(payload);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to load requests.");
+    } finally {
+      setLoading(false);
+    }
+  }, [api, instance, mode, page, scope, status, text]);
+
+  useEffect(() => {
+    loadRequests();
+  }, [loadRequests]);
+
+  useEffect(() => {
+    setPage(1);
+  }, [mode, status, instance, text]);
+
+  const hasActive = Boolean(data?.items.some(isActiveRequest));
+
+  useEffect(() => {
+    if (!hasActive) {
+      return undefined;
+    }
+    const timer = window.setInterval(() => {
+      void loadRequests();
+    }, REFRESH_MS);
+    return () => window.clearInterval(timer);
+  }, [hasActive, loadRequests]);
+
+  const reviewRequest = async (
+    record: RequestRecord,
+    action: "approve" | "reject"
+  ) => {
+    let reason: string | null = null;
+    if (action === "reject") {
+      reason = window.prompt(`Why is "${record.title}" being rejected?`, "");
+      if (reason === null) {
+        return;
+      }
+    }
+
+    setBusyId(record.id);
+    setError(null);
+    try {
+      await api(
+        `/api/requests/${record.id}/${action}`,
+        { method: "POST", body: action === "reject" ? { reason } : {} },
+        action === "approve" ? "Approval failed." : "Rejection failed."
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Request failed.");
+    } finally {
+      setBusyId(null);
+      await loadRequests();
+    }
+  };
+
+  const cancelRequest = async (record: RequestRecord) => {
+    const undo =
+      record.status === "submitted"
+        ? " Its downloads are removed and Readarr is put back the way it was."
+        : "";
+    if (!window.confirm(`Cancel the request for "${record.title}"?${undo}`)) {
+      return;
+    }
+
+    setBusyId(record.id);
+    setError(null);
+    try {
+      await api(
+        `/api/requests/${record.id}/cancel`,
+        { method: "POST" },
+        "Unable to cancel this request."
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to cancel this request.");
+    } finally {
+      setBusyId(null);
+      await loadRequests();
+    }
+  };
+
+  const heading =
+    mode === "mine"
+      ? "My requests"
+      : mode === "all"
+      ? "All requests"
+      : "Awaiting approval";
+
+  const pageCount = data ? Math.max(1, Math.ceil(data.total / data.pageSize)) : 1;
+
+  return (
+    <section className="requests">
+      <div className="results__header">
+        <h2>{heading}</h2>
+        {data && (
+          <span>
+            {data.total} request{data.total === 1 ? "" : "s"}
+          </span>
+        )}
+      </div>
+
+      <div className="requests__filters">
+        <input
+          type="text"
+          placeholder={scope === "all" ? "Filter by title, author or user" : "Filter by title or author"}
+          value={text}
+          onChange={(event) => setText(event.target.value)}
+        />
+        {mode !== "approvals" && (
+          <select value={status} onChange={(event) => setStatus(event.target.value)}>
+            <option value="">Any status</option>
+            {(Object.keys(statusLabels) as RequestStatus[]).map((value) => (
+              <option key={value} value={value}>
+                {statusLabels[value]}
+              </option>
+            ))}
+          </select>
+        )}
+        <select
+          value={instance}
+          onChange={(event) => setInstance(event.target.value)}
+        >
+          <option value="">Any library</option>
+          {instances.map((entry) => (
+            <option key={entry.id} value={entry.id}>
+              {entry.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {error && <div className="error">{error}</div>}
+
+      {!loading && data && data.items.length === 0 && (
+        <div className="empty">
+          <p>
+            {mode === "approvals" ? "Nothing is waiting for approval." : "No requests yet."}
+          </p>
+        </div>
+      )}
+
+      <ul className="requests__list">
+        {data?.items.map((record) => {
+          const target = findInstanceSummary(instances, record.instance);
+          return (
+            <li key={record.id} className="requests__row">
+              <div className="requests__book">
+                <strong>{record.title}</strong>
+                <span>{record.author}</span>
+              </div>
+              <div className="requests__meta">
+                <span>{target?.label || record.instance}</span>
+                {scope === "all" && <span>{record.username}</span>}
+                <span>{formatDate(record.createdAt)}</span>
+              </div>
+              <div className="requests__status">
+                <span className={statusClass(record)}>
+                  {stageLabel(record, target?.kind) || statusLabels[record.status]}
+                </span>
+                {record.stage === "downloading" && (
+                  <progress
+                    className="requests__progress"
+                    max={100}
+                    value={record.progress ?? 0}
+                  />
+                )}
+                {record.stageMessage && (
+                  <span className="status">{record.stageMessage}</span>
+                )}
+                {record.outcome && (
+                  <span className="status">{describeOutcome(record.outcome)}</span>
+                )}
+                {record.error && <span className="status">{record.error}</span>}
+                {record.status === "rejected" && (
+                  <span className="status">
+                    {record.rejectionReason}
+                    {record.reviewedBy ? ` (${record.reviewedBy})` : ""}
+                  </span>
+                )}
+                {record.status === "cancelled" && record.cancelledBy && (
+                  <span className="status">Cancelled by {record.cancelledBy}</span>
+                )}
+                {mode !== "approvals" && canCancelRequest(record, isAdmin) && (
+                  <div className="requests__actions">
+                    <button
+                      type="button"
+                      className="button button--ghost"
+                      disabled={busyId === record.id}
+                      onClick={() => cancelRequest(record)}
+                    >
+                      Cancel request
+                    </button>
+                  </div>
+                )}
+                {mode === "approvals" && (
+                  <div className="requests__actions">
+                    <button
+                      type="button"
+                      className="button button--primary"
+                      disabled={busyId === record.id}
+                      onClick={() => reviewRequest(record, "approve")}
+                    >
+                      Approve
+                    </button>
+                    <button
+                      type="button"
+                      className="button button--ghost"
+                      disabled={busyId === record.id}
+                      onClick={() => reviewRequest(record, "reject")}
+                    >
+                      Reject
+                    </button>
+                  </div>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      {data && data.total > data.pageSize && (
+        <div className="requests__pager">
+          <button
+            type="button"
+            className="button button--ghost"
+            disabled={page <= 1 || loading}
+            onClick={() => setPage((prev) => prev - 1)}
+          >
+            Previous
+          </button>
+          <span>
+            Page {page} of {pageCount}
+          </span>
+          <button
+            type="button"
+            className="button button--ghost"
+            disabled={page >= pageCount || loading}
+            onClick={() => setPage((prev) => prev + 1)}
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default RequestsView;
@@ -0,0 +1,189 @@
+import { useState } from "react";
+import { ApiCaller } from "./api";
+import { SeriesEntry, SeriesOutcome } from "./books";
+import { InstanceSummary } from "./instances";
+
+type SeriesPanelProps = {
+  api: ApiCaller;
+  bookKey: string;
+  seriesTitle: string;
+  instances: InstanceSummary[];
+};
+
+type SeriesResponse = {
+  title: string;
+  entries: SeriesEntry[];
+  errors: Record<string, string>;
+};
+
+const outcomeLabels: Record<SeriesOutcome["status"], string> = {
+  requested: "Requested",
+  pending: "Awaiting approval",
+  skipped: "Already added",
+  unavailable: "Not available",
+  failed: "Failed"
+};
+
+const SeriesPanel = ({ api, bookKey, seriesTitle, instances }: SeriesPanelProps) => {
+  const [series, setSeries] = useState<SeriesResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [requesting, setRequesting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [targets, setTargets] = useState<string[]>(() =>
+    instances.map((instance) => instance.id)
+  );
+  const [outcomes, setOutcomes] = useState<SeriesOutcome[] | null>(null);
+
+  const seriesPath = `/api/books/${encodeURIComponent(bookKey)}/series`;
+
+  const loadSeries = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setSeries(
+        await api<SeriesResponse>(
+          `${seriesPath}?series=${encodeURIComponent(seriesTitle)}`,
+          {},
+          "Unable to load the series."
+        )
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to load the series.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleTarget = (id: string) =>
+    setTargets((prev) =>
+      prev.includes(id) ? prev.filter((target) => target !== id) : [...prev, id]
+    );
+
+  const handleRequest = async () => {
+    setRequesting(true);
+    setError(null);
+    try {
+      const payload = await api<{ outcomes: SeriesOutcome[] }>(
+        `${seriesPath}/request`,
+        { method: "POST", body: { series: seriesTitle, instances: targets } },
+        "Unable to request the series."
+      );
+      setOutcomes(payload.outcomes);
+      await loadSeries();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to request the series.");
+    } finally {
+      setRequesting(false);
+    }
+  };
+
+  const instanceLabel = (id: string) =>
+    instances.find((instance) => instance.id === id)?.label || id;
+
+  return (
+    <section className="series">
+      <div className="series__header">
+        <h3>{seriesTitle}</h3>
+        <button
+          type="button"
+          className="button button--ghost"
+          onClick={loadSeries}
+          disabled={loading}
+        >
+          {loading ? "Loading..." : series ? "Refresh" : "Show all books"}
+        </button>
+      </div>
+
+      {error && <span className="status status--error">{error}</span>}
+      {series &&
+        Object.entries(series.errors).map(([instanceId, message]) => (
+          <span key={instanceId} className="status status--error">
+            {instanceLabel(instanceId)}: {message}
+          </span>
+        ))}
+
+      {series && (
+        <>
+          <ol className="series__list">
+            {series.entries.map((entry) => (
+              <li key={entry.key} className="series__entry">
+                <span className="series__position">
+                  {entry.position ? `#${entry.position}` : "–"}
+                </span>
+                <span>{entry.title}</span>
+                <span className="series__states">
+                  {instances.map((instance) => {
+                    const status = entry.instances[instance.id];
+                    return (
+                      <span
+                        key={instance.id}
+                        className={`status${status?.alreadyAdded ? " status--ok" : ""}`}
+                      >
+                        {instance.label}:{" "}
+                        {status?.offline
+                          ? "offline"
+                          : status?.alreadyAdded
+                          ? "added"
+                          : status?.available
+                          ? "missing"
+                          : "not available"}
+                      </span>
+                    );
+                  })}
+                </span>
+              </li>
+            ))}
+          </ol>
+
+          <div className="series__request">
+            {instances.map((instance) => (
+              <label key={instance.id} className="toggle">
+                <input
+                  type="checkbox"
+                  checked={targets.includes(instance.id)}
+                  onChange={() => toggleTarget(instance.id)}
+                />
+                <span>{instance.label}</span>
+              </label>
+            ))}
+            <button
+              type="button"
+              className="action action--accent"
+              onClick={handleRequest}
+              disabled={requesting || !targets.length || !series.entries.length}
+            >
+              {requesting ? "Requesting..." : "Request missing books"}
+            </button>
+          </div>
+        </>
+      )}
+
+      {outcomes && (
+        <ul className="series__outcomes">
+          {outcomes.map((outcome) => (
+            <li key={`${outcome.key}@${outcome.instance}`}>
+              <span>
+                {outcome.position && `#${outcome.position} `}
+                {outcome.title} · {instanceLabel(outcome.instance)}
+              </span>
+              <span
+                className={`status${
+                  outcome.status === "failed"
+                    ? " status--error"
+                    : outcome.status === "requested"
+                    ? " status--ok"
+                    : ""
+                }`}
+              >
+                {outcomeLabels[outcome.status]}
+                {outcome.error && `: ${outcome.error}`}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+export default SeriesPanel;
@@ -0,0 +1,188 @@
+import { useCallback, useEffect, useState } from "react";
+import { ApiCaller, User, UserRole } from "./api";
+
+type UsersPanelProps = {
+  api: ApiCaller;
+  currentUserId: string;
+};
+
+const UsersPanel = ({ api, currentUserId }: UsersPanelProps) => {
+  const [users, setUsers] = useState<User[]>([]);
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [role, setRole] = useState<UserRole>("requester");
+  const [busy, setBusy] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const loadUsers = useCallback(async () => {
+    try {
+      const payload = await api<{ users: User[] }>(
+        "/api/users",
+        {},
+        "Unable to load users."
+      );
+      setUsers(payload.users);
+    } catch (err) {
+      setNotice(err instanceof Error ? err.message : "Unable to load users.");
+    }
+  }, [api]);
+
+  useEffect(() => {
+    loadUsers();
+  }, [loadUsers]);
+
+  const runAction = async (action: () => Promise<unknown>, success: string) => {
+    setBusy(true);
+    setNotice(null);
+    try {
+      await action();
+      setNotice(success);
+      await loadUsers();
+    } catch (err) {
+      setNotice(err instanceof Error ? err.message : "Request failed.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCreate = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    void runAction(async () => {
+      await api(
+        "/api/users",
+        {
+          method: "POST",
+          body: { username: username.trim(), password, role }
+        },
+        "Unable to create user."
+      );
+      setUsername("");
+      setPassword("");
+      setRole("requester");
+    }, "User created.");
+  };
+
+  const handleRoleChange = (user: User, nextRole: UserRole) =>
+    runAction(
+      () =>
+        api(
+          `/api/users/${user.id}`,
+          { method: "PATCH", body: { role: nextRole } },
+          "Unable to update user."
+        ),
+      `${user.username} is now ${nextRole === "admin" ? "an admin" : "a requester"}.`
+    );
+
+  const handleAutoApproveChange = (user: User, autoApprove: boolean) =>
+    runAction(
+      () =>
+        api(
+          `/api/users/${user.id}`,
+          { method: "PATCH", body: { autoApprove } },
+          "Unable to update user."
+        ),
+      autoApprove
+        ? `${user.username} can now skip approval.`
+        : `${user.username} now needs approval.`
+    );
+
+  const handleDelete = (user: User) => {
+    if (!window.confirm(`Delete ${user.username}?`)) {
+      return;
+    }
+    void runAction(
+      () =>
+        api(
+          `/api/users/${user.id}`,
+          { method: "DELETE" },
+          "Unable to delete user."
+        ),
+      `${user.username} deleted.`
+    );
+  };
+
+  return (
+    <div className="users">
+      <h3>Users</h3>
+      <p>Admins can change settings. Requesters can only search and request.</p>
+
+      {notice && <div className="notice">{notice}</div>}
+
+      <ul className="users__list">
+        {users.map((user) => (
+          <li key={user.id} className="users__row">
+            <span className="users__name">{user.username}</span>
+            <select
+              value={user.role}
+              disabled={busy || user.id === currentUserId}
+              onChange={(event) =>
+                handleRoleChange(user, event.target.value as UserRole)
+              }
+            >
+              <option value="requester">Requester</option>
+              <option value="admin">Admin</option>
+            </select>
+            <label className="toggle">
+              <input
+                type="checkbox"
+                checked={user.role === "admin" || Boolean(user.autoApprove)}
+                disabled={busy || user.role === "admin"}
+                onChange={(event) =>
+                  handleAutoApproveChange(user, event.target.checked)
+                }
+              />
+              <span>Skip approval</span>
+            </label>
+            <button
+              type="button"
+              className="button button--ghost"
+              disabled={busy || user.id === currentUserId}
+              onClick={() => handleDelete(user)}
+            >
+              Remove
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <form className="users__form" onSubmit={handleCreate}>
+        <div className="field">
+          <label>Username</label>
+          <input
+            type="text"
+            value={username}
+            onChange={(event) => setUsername(event.target.value)}
+          />
+        </div>
+        <div className="field">
+          <label>Password</label>
+          <input
+            type="password"
+            autoComplete="new-password"
+            value={password}
+            onChange={(event) => setPassword(event.target.value)}
+          />
+        </div>
+        <div className="field">
+          <label>Role</label>
+          <select
+            value={role}
+            onChange={(event) => setRole(event.target.value as UserRole)}
+          >
+            <option value="requester">Requester</option>
+            <option value="admin">Admin</option>
+          </select>
+        </div>
+        <button
+          type="submit"
+          className="button button--primary"
+          disabled={busy || !username.trim() || password.length < 8}
+        >
+          Add user
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default UsersPanel;
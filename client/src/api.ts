@@ -0,0 +1,126 @@
+import type { NotificationPreferences } from "./notifications";
+
+export const API_BASE = import.meta.env.VITE_API_BASE || "";
+
+export type UserRole = "admin" | "requester";
+
+export type User = {
+  id: string;
+  username: string;
+  role: UserRole;
+  autoApprove?: boolean;
+  notifications?: NotificationPreferences;
+  createdAt: string;
+};
+
+export type Session = {
+  token: string;
+  user: User;
+};
+
+export class ApiError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.status = status;
+  }
+}
+
+type ApiOptions = {
+  method?: string;
+  body?: unknown;
+  token?: string;
+};
+
+export type ApiCaller = <T>(
+  path: string,
+  options: Omit<ApiOptions, "token">,
+  fallbackError: string
+) => Promise<T>;
+
+export const apiRequest = async <T,>(
+  path: string,
+  options: ApiOptions,
+  fallbackError: string
+): Promise<T> => {
+  const headers: Record<string, string> = {};
+  const raw = options.body instanceof Blob ? options.body : null;
+  if (options.body !== undefined) {
+    headers["Content-Type"] = raw ? raw.type : "application/json";
+  }
+  if (options.token) {
+    headers.Authorization = `Bearer ${options.token}`;
+  }
+
+  const response = await fetch(`${API_BASE}${path}`, {
+    method: options.method || "GET",
+    headers,
+    body: raw || (options.body !== undefined ? JSON.stringify(options.body) : undefined)
+  });
+
+  if (!response.ok) {
+    const payload = await response.json().catch(() => ({}));
+    throw new ApiError(payload.error || fallbackError, response.status);
+  }
+
+  return (await response.json()) as T;
+};
+
+export const streamRequest = async (
+  path: string,
+  options: { token?: string; signal?: AbortSignal },
+  onEvent: (event: string, data: unknown) => void,
+  fallbackError: string
+): Promise<void> => {
+  const headers: Record<string, string> = { Accept: "text/event-stream" };
+  if (options.token) {
+    headers.Authorization = `Bearer ${options.token}`;
+  }
+
+  const response = await fetch(`${API_BASE}${path}`, {
+    headers,
+    signal: options.signal
+  });
+
+  if (!response.ok || !response.body) {
+    const payload = await response.json().catch(() => ({}));
+    throw new ApiError(payload.error || fallbackError, response.status);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const dispatch = (block: string) => {
+    let event = "message";
+    const data: string[] = [];
+    for (const line of block.split("\n")) {
+      if (line.startsWith("event:")) {
+        event = line.slice(6).trim();
+      } else if (line.startsWith("data:")) {
+        data.push(line.slice(5).trimStart());
+      }
+    }
+    if (data.length) {
+      onEvent(event, JSON.parse(data.join("\n")));
+    }
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    buffer += decoder.decode(value, { stream: true });
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      dispatch(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf("\n\n");
+    }
+  }
+  if (buffer.trim()) {
+    dispatch(buffer);
+  }
+};
@@ -0,0 +1,134 @@
+export type InstanceStatus = {
+  available: boolean;
+  alreadyAdded: boolean;
+  offline?: boolean;
+  lookup?: Record<string, unknown>;
+  existingId?: number;
+  monitored?: boolean;
+  hasFile?: boolean;
+};
+
+export type SearchItem = {
+  key: string;
+  title: string;
+  author: string;
+  isbn13?: string;
+  foreignBookId?: string;
+  goodreadsId?: string;
+  coverUrl?: string;
+  releaseDate?: string;
+  year?: number;
+  series?: string;
+  seriesPosition?: string;
+  overview?: string;
+  pageCount?: number;
+  rating?: {
+    value: number;
+    votes: number;
+  };
+  instances: Record<string, InstanceStatus>;
+};
+
+export type BookEdition = {
+  id: string;
+  title: string;
+  format?: string;
+  isEbook?: boolean;
+  isbn13?: string;
+  asin?: string;
+  publisher?: string;
+  language?: string;
+  pageCount?: number;
+  releaseDate?: string;
+  monitored?: boolean;
+};
+
+export type InstanceBookDetail = InstanceStatus & {
+  editions: BookEdition[];
+  fileCount?: number;
+  sizeOnDisk?: number;
+  lastSearchTime?: string;
+};
+
+export type BookDetail = Omit<SearchItem, "instances"> & {
+  seriesLinks: { title: string; position?: string }[];
+  instances: Record<string, InstanceBookDetail>;
+};
+
+export type SeriesEntry = SearchItem & {
+  position?: string;
+};
+
+export type SeriesOutcome = {
+  key: string;
+  title: string;
+  position?: string;
+  instance: string;
+  status: "requested" | "pending" | "skipped" | "unavailable" | "failed";
+  error?: string;
+};
+
+export type FollowMonitor = "none" | "future" | "missing" | "all";
+
+export const followMonitorLabels: Record<FollowMonitor, string> = {
+  none: "Add only",
+  future: "Future books",
+  missing: "Missing books",
+  all: "All books"
+};
+
+export type AuthorStatus = {
+  available: boolean;
+  offline?: boolean;
+  existingId?: number;
+  monitored?: boolean;
+  monitorNewItems?: string;
+  lookup?: Record<string, unknown>;
+};
+
+export type AuthorItem = {
+  key: string;
+  name: string;
+  foreignAuthorId?: string;
+  overview?: string;
+  imageUrl?: string;
+  bookCount?: number;
+  instances: Record<string, AuthorStatus>;
+};
+
+export type FollowRecord = {
+  id: string;
+  userId: string;
+  username: string;
+  instance: string;
+  authorKey: string;
+  authorName: string;
+  foreignAuthorId?: string;
+  authorId?: number;
+  monitor: FollowMonitor;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export const describeEdition = (item: SearchItem | BookDetail): string => {
+  const series = item.series
+    ? item.seriesPosition
+      ? `${item.series} #${item.seriesPosition}`
+      : item.series
+    : "";
+  return [item.year ? String(item.year) : "", series].filter(Boolean).join(" · ");
+};
+
+export const bookPath = (key: string): string => `/book/${encodeURIComponent(key)}`;
+
+export const readBookRoute = (): string | null => {
+  const match = window.location.pathname.match(/^\/book\/([^/]+)\/?$/);
+  if (!match) {
+    return null;
+  }
+  try {
+    return decodeURIComponent(match[1]);
+  } catch {
+    return null;
+  }
+};
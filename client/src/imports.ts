@@ -0,0 +1,62 @@
+export type ImportMatchStatus = "matched" | "ambiguous" | "not_found" | "owned" | "error";
+
+export type ImportCandidate = {
+  key: string;
+  title: string;
+  author: string;
+  year?: number;
+};
+
+export type ImportMatch = {
+  status: ImportMatchStatus;
+  matchedBy?: "library" | "isbn" | "goodreads" | "title";
+  existingId?: number;
+  candidates?: ImportCandidate[];
+  error?: string;
+};
+
+export type ImportRowReport = {
+  row: number;
+  title: string;
+  author: string;
+  isbn13?: string;
+  goodreadsId?: string;
+  shelf?: string;
+  status: ImportMatchStatus;
+  instances: Record<string, ImportMatch>;
+};
+
+export type ImportOutcome = {
+  row: number;
+  title: string;
+  instance: string;
+  status: "requested" | "pending" | "skipped" | "unavailable" | "failed";
+  error?: string;
+};
+
+export type ImportJob = {
+  id: string;
+  fileName?: string;
+  format: "goodreads" | "storygraph";
+  status: "matching" | "ready" | "requesting" | "done";
+  total: number;
+  processed: number;
+  rows: ImportRowReport[];
+  outcomes: ImportOutcome[];
+};
+
+export const importStatusLabels: Record<ImportMatchStatus, string> = {
+  matched: "Matched",
+  ambiguous: "Ambiguous",
+  not_found: "Not found",
+  owned: "Already owned",
+  error: "Failed"
+};
+
+export const importOutcomeLabels: Record<ImportOutcome["status"], string> = {
+  requested: "Requested",
+  pending: "Awaiting approval",
+  skipped: "Already owned",
+  unavailable: "Not available",
+  failed: "Failed"
+};
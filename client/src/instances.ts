@@ -0,0 +1,18 @@
+export type InstanceKind = "ebook" | "audiobook" | "other";
+
+export type InstanceSummary = {
+  id: string;
+  label: string;
+  kind: InstanceKind;
+};
+
+export const instanceKindLabels: Record<InstanceKind, string> = {
+  ebook: "Ebook",
+  audiobook: "Audiobook",
+  other: "Other"
+};
+
+export const findInstanceSummary = (
+  instances: InstanceSummary[],
+  id: string
+): InstanceSummary | undefined => instances.find((instance) => instance.id === id);
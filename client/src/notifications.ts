@@ -0,0 +1,49 @@
+export type NotificationEvent =
+  | "request.created"
+  | "request.approved"
+  | "request.rejected"
+  | "request.imported"
+  | "request.failed";
+
+export type NotificationChannelType = "webhook" | "discord" | "apprise" | "email";
+
+export type NotificationChannel = {
+  id?: string;
+  type: NotificationChannelType;
+  label: string;
+  enabled: boolean;
+  events: NotificationEvent[];
+  url?: string;
+  smtp?: {
+    host: string;
+    port: number | string;
+    secure: boolean;
+    username?: string;
+    password?: string;
+    from: string;
+  };
+};
+
+export type NotificationPreferences = {
+  events: NotificationEvent[];
+  email?: string;
+};
+
+export const notificationEventLabels: Record<NotificationEvent, string> = {
+  "request.created": "New request (admins)",
+  "request.approved": "Request approved",
+  "request.rejected": "Request rejected",
+  "request.imported": "Book ready",
+  "request.failed": "Request failed"
+};
+
+export const channelTypeLabels: Record<NotificationChannelType, string> = {
+  webhook: "JSON webhook",
+  discord: "Discord / Slack webhook",
+  apprise: "Apprise API",
+  email: "Email (SMTP)"
+};
+
+export const allNotificationEvents = Object.keys(
+  notificationEventLabels
+) as NotificationEvent[];
@@ -0,0 +1,149 @@
+import type { InstanceKind } from "./instances";
+
+export type RequestStatus =
+  | "pending"
+  | "rejected"
+  | "queued"
+  | "submitted"
+  | "failed"
+  | "cancelled";
+
+export type TrackingStage =
+  | "searching"
+  | "grabbed"
+  | "downloading"
+  | "imported"
+  | "failed";
+
+export type RequestOutcome = {
+  action: "added" | "monitored";
+  bookId?: number;
+  lookup?: "resolved" | "original";
+  putFallback: boolean;
+  overridesApplied?: boolean;
+  searchTriggered: boolean;
+};
+
+export type RequestRecord = {
+  id: string;
+  userId: string;
+  username: string;
+  instance: string;
+  groupId?: string;
+  itemKey?: string;
+  title: string;
+  author: string;
+  isbn13?: string;
+  status: RequestStatus;
+  error?: string;
+  reviewedBy?: string;
+  rejectionReason?: string;
+  cancelledBy?: string;
+  bookId?: number;
+  outcome?: RequestOutcome;
+  stage?: TrackingStage;
+  progress?: number;
+  stageMessage?: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type RequestPage = {
+  items: RequestRecord[];
+  total: number;
+  page: number;
+  pageSize: number;
+};
+
+export type LinkedRequestResult = {
+  instance: string;
+  status: "ok" | "pending" | "failed";
+  request?: RequestRecord;
+  outcome?: RequestOutcome;
+  error?: string;
+};
+
+export type RequestState = "idle" | "loading" | "success" | "pending" | "error";
+
+const activeStages: TrackingStage[] = ["searching", "grabbed", "downloading"];
+
+export const isActiveRequest = (record: RequestRecord): boolean =>
+  record.status === "queued" ||
+  (record.status === "submitted" &&
+    record.bookId != null &&
+    activeStages.includes(record.stage || "searching"));
+
+export const canCancelRequest = (record: RequestRecord, admin: boolean): boolean =>
+  record.status === "pending" ||
+  record.status === "queued" ||
+  (record.status === "submitted" &&
+    (admin || (record.stage !== "imported" && record.stage !== "failed")));
+
+export const stageLabel = (
+  record: RequestRecord,
+  kind?: InstanceKind
+): string | null => {
+  if (record.status !== "submitted" || !record.stage) {
+    return null;
+  }
+
+  const ready =
+    kind === "audiobook"
+      ? "Ready to listen"
+      : kind === "ebook"
+      ? "Ready to read"
+      : "Ready";
+  switch (record.stage) {
+    case "searching":
+      return "Searching";
+    case "grabbed":
+      return "Grabbed";
+    case "downloading":
+      return `Downloading ${record.progress ?? 0}%`;
+    case "imported":
+      return ready;
+    case "failed":
+      return "Download failed";
+    default:
+      return null;
+  }
+};
+
+export const describeOutcome = (outcome: RequestOutcome): string => {
+  const book = outcome.bookId ? ` as book #${outcome.bookId}` : "";
+  const action =
+    outcome.action === "added"
+      ? outcome.lookup === "original"
+        ? `Added${book} from the search result`
+        : `Added${book}`
+      : outcome.putFallback
+      ? `Re-monitored${book} by updating the book`
+      : `Re-monitored${book}`;
+  const options =
+    outcome.action === "monitored" && outcome.overridesApplied
+      ? "; options applied to the author"
+      : "";
+  return `${action}${options}; ${
+    outcome.searchTriggered ? "search started" : "search not started yet"
+  }.`;
+};
+
+export type OverrideField =
+  | "rootFolderPath"
+  | "qualityProfileId"
+  | "metadataProfileId"
+  | "tags";
+
+export type RequestOverrides = {
+  rootFolderPath?: string;
+  qualityProfileId?: number;
+  metadataProfileId?: number;
+  tags?: number[];
+};
+
+export const overrideFieldLabels: Record<OverrideField, string> = {
+  rootFolderPath: "Root folder",
+  qualityProfileId: "Quality profile",
+  metadataProfileId: "Metadata profile",
+  tags: "Tags"
+};
@@ -0,0 +1,80 @@
+import type express from "express";
+import type { PublicUser } from "./userStore.js";
+import { getSessionUser, hasUsers, verifyCredentials } from "./userStore.js";
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: PublicUser;
+      sessionToken?: string;
+    }
+  }
+}
+
+const publicPaths = new Set([
+  "/api/health",
+  "/api/auth/status",
+  "/api/auth/login",
+  "/api/auth/setup"
+]);
+
+const readBearer = (header: string): string => {
+  if (header.startsWith("Bearer ")) {
+    return header.slice(7).trim();
+  }
+  return header.trim();
+};
+
+const resolveUser = async (
+  req: express.Request
+): Promise<PublicUser | null> => {
+  const header = req.header("authorization") || "";
+
+  if (header.startsWith("Basic ")) {
+    const decoded = Buffer.from(header.slice(6), "base64").toString("utf8");
+    const [username, ...rest] = decoded.split(":");
+    return verifyCredentials(username, rest.join(":"));
+  }
+
+  const token = readBearer(header);
+  const user = getSessionUser(token);
+  if (user) {
+    req.sessionToken = token;
+  }
+  return user;
+};
+
+export const authenticate: express.RequestHandler = async (req, res, next) => {
+  if (
+    !req.path.startsWith("/api/") ||
+    req.path.startsWith("/api/webhooks/") ||
+    req.path.startsWith("/api/covers/") ||
+    publicPaths.has(req.path)
+  ) {
+    return next();
+  }
+
+  try {
+    const user = await resolveUser(req);
+    if (!user) {
+      return res
+        .status(401)
+        .json({ error: "Unauthorized", setupRequired: !hasUsers() });
+    }
+
+    req.user = user;
+    return next();
+  } catch (error) {
+    return next(error);
+  }
+};
+
+export const requireAdmin: express.RequestHandler = (req, res, next) => {
+  if (req.user?.role !== "admin") {
+    return res.status(403).json({ error: "Admin access required." });
+  }
+  return next();
+};
+
+export const isAdmin = (req: express.Request): boolean =>
+  req.user?.role === "admin";
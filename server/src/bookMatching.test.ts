@@ -0,0 +1,82 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import path from "node:path";
+import { describe, it } from "node:test";
+import { fileURLToPath } from "node:url";
+import type { MatchableBook } from "./bookMatching.js";
+import { bookMatchKeys, isbnMatchKey, normalizeAuthor } from "./bookMatching.js";
+
+type CorpusBook = Omit<MatchableBook, "key">;
+
+type CorpusPair = {
+  case: string;
+  a: CorpusBook;
+  b: CorpusBook;
+};
+
+const corpus = JSON.parse(
+  fs.readFileSync(
+    path.join(
+      path.dirname(fileURLToPath(import.meta.url)),
+      "__fixtures__",
+      "book-matching.json"
+    ),
+    "utf8"
+  )
+) as { merge: CorpusPair[]; apart: CorpusPair[] };
+
+// Search results are merged when a later book looks up a key that an earlier
+// one registered, so a pair must match in whichever order it arrives.
+const matches = (first: MatchableBook, second: MatchableBook): boolean => {
+  const registered = bookMatchKeys(first).register;
+  return bookMatchKeys(second).lookup.some((key) => registered.includes(key));
+};
+
+const pair = ({ a, b }: CorpusPair): [MatchableBook, MatchableBook] => [
+  { key: "id:a", ...a },
+  { key: "id:b", ...b }
+];
+
+describe("bookMatchKeys corpus", () => {
+  for (const entry of corpus.merge) {
+    it(`merges: ${entry.case}`, () => {
+      const [a, b] = pair(entry);
+      assert.ok(matches(a, b), `${b.title} should find ${a.title}`);
+      assert.ok(matches(b, a), `${a.title} should find ${b.title}`);
+    });
+  }
+
+  for (const entry of corpus.apart) {
+    it(`keeps apart: ${entry.case}`, () => {
+      const [a, b] = pair(entry);
+      assert.ok(!matches(a, b), `${b.title} should not find ${a.title}`);
+      assert.ok(!matches(b, a), `${a.title} should not find ${b.title}`);
+    });
+  }
+});
+
+describe("normalizeAuthor", () => {
+  for (const [input, title, expected] of [
+    ["Tolkien, J.R.R.", "", "jrr tolkien"],
+    ["J. R. R. Tolkien", "", "jrr tolkien"],
+    ["tolkien, j.r.r. The Hobbit", "The Hobbit", "jrr tolkien"],
+    ["Ursula K. Le Guin", "", "ursula k le guin"],
+    ["Le Guin, Ursula K.", "", "ursula k le guin"]
+  ] as const) {
+    it(`normalizes ${input}`, () => {
+      assert.equal(normalizeAuthor(input, title), expected);
+    });
+  }
+});
+
+describe("isbnMatchKey", () => {
+  it("gives ISBN-10 and ISBN-13 of one book the same key", () => {
+    assert.equal(isbnMatchKey("0-618-96863-6"), "isbn:9780618968633");
+    assert.equal(isbnMatchKey("9780618968633"), "isbn:9780618968633");
+  });
+
+  it("ignores missing and invalid ISBNs", () => {
+    assert.equal(isbnMatchKey(undefined), "");
+    assert.equal(isbnMatchKey("9780618968634"), "");
+  });
+});
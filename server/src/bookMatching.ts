@@ -0,0 +1,83 @@
+import { normalizeIsbn } from "./identifiers.js";
+import { normalizeText } from "./searchQuery.js";
+
+export type MatchableBook = {
+  key: string;
+  title: string;
+  author: string;
+  isbn13?: string;
+};
+
+export type MatchKeys = {
+  lookup: string[];
+  register: string[];
+};
+
+const leadingArticles = /^(the|a|an|le|la|les|l|der|die|das|el|los|las)\s+/;
+const subtitleSeparator = /\s*[:;]\s|\s+[-–—]\s/;
+
+const stripBrackets = (title: string): string =>
+  title.replace(/\([^)]*\)|\[[^\]]*\]/g, " ");
+
+const cleanTitle = (title: string): string => {
+  const normalized = normalizeText(stripBrackets(title).replace(/&/g, " and "));
+  return normalized.replace(leadingArticles, "") || normalized;
+};
+
+export const normalizeAuthor = (author: string, title = ""): string => {
+  let name = author.trim();
+  const titleIndex = title
+    ? name.toLowerCase().lastIndexOf(title.trim().toLowerCase())
+    : -1;
+  if (titleIndex > 0) {
+    name = name.slice(0, titleIndex);
+  }
+  const [last, ...rest] = name.split(",");
+  if (rest.join("").trim()) {
+    name = `${rest.join(" ")} ${last}`;
+  }
+  return normalizeText(name).replace(/\b([a-z]) (?=[a-z]\b)/g, "$1");
+};
+
+const surname = (author: string, title: string): string => {
+  const words = normalizeAuthor(author, title).split(" ");
+  return words[words.length - 1] || "";
+};
+
+export const isbnMatchKey = (value?: string): string => {
+  const isbn = value ? normalizeIsbn(value) : null;
+  return isbn ? `isbn:${isbn}` : "";
+};
+
+// A subtitled title ("The Hobbit: Or There and Back Again") matches the bare
+// main title ("The Hobbit"), but two different subtitles never match each
+// other, so series-prefixed titles like "Star Wars: ..." stay apart.
+export const workMatchKeys = (title: string, author: string): MatchKeys => {
+  const full = cleanTitle(title);
+  if (!full) {
+    return { lookup: [], register: [] };
+  }
+  const who = surname(author, title);
+  const stripped = stripBrackets(title);
+  const separator = stripped.search(subtitleSeparator);
+  const main = separator > 0 ? cleanTitle(stripped.slice(0, separator)) : "";
+  if (!main || main === full) {
+    return {
+      lookup: [`w:${full}|${who}`, `ws:${full}|${who}`],
+      register: [`w:${full}|${who}`]
+    };
+  }
+  return {
+    lookup: [`w:${full}|${who}`, `w:${main}|${who}`],
+    register: [`w:${full}|${who}`, `ws:${main}|${who}`]
+  };
+};
+
+export const bookMatchKeys = (book: MatchableBook): MatchKeys => {
+  const ids = [book.key, isbnMatchKey(book.isbn13)].filter(Boolean);
+  const work = workMatchKeys(book.title, book.author);
+  return {
+    lookup: [...ids, ...work.lookup],
+    register: [...ids, ...work.register]
+  };
+};
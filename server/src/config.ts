@@ -20,5 +20,16 @@ const toNumber = (value: string | undefined, fallback: number): number => {
 
 export const config = {
   port: toNumber(process.env.PORT, 3000),
-  auth: process.env.AUTH?.trim() || ""
+  adminUsername: process.env.ADMIN_USERNAME?.trim() || "admin",
+  adminPassword:
+    process.env.ADMIN_PASSWORD?.trim() || process.env.AUTH?.trim() || "",
+  sessionTtlHours: toNumber(process.env.SESSION_TTL_HOURS, 24 * 30),
+  trackerIntervalSeconds: toNumber(process.env.TRACKER_INTERVAL_SECONDS, 60),
+  libraryRefreshSeconds: toNumber(process.env.LIBRARY_REFRESH_SECONDS, 900),
+  instanceCooldownSeconds: toNumber(process.env.INSTANCE_COOLDOWN_SECONDS, 60),
+  searchCacheTtlSeconds: toNumber(process.env.SEARCH_CACHE_TTL_SECONDS, 600),
+  searchCacheMaxEntries: toNumber(process.env.SEARCH_CACHE_MAX_ENTRIES, 500),
+  coverCacheDays: toNumber(process.env.COVER_CACHE_DAYS, 30),
+  jobMaxAttempts: toNumber(process.env.JOB_MAX_ATTEMPTS, 8),
+  jobRetryBaseSeconds: toNumber(process.env.JOB_RETRY_BASE_SECONDS, 30)
 };
@@ -0,0 +1,153 @@
+import axios from "axios";
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { config } from "./config.js";
+import type { InstanceSettings } from "./settingsStore.js";
+
+type CoverInstance = Pick<InstanceSettings, "id" | "baseUrl" | "apiKey">;
+
+export class CoverError extends Error {
+  status: number;
+
+  constructor(message: string, status = 404) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const baseDir = process.env.INIT_CWD || process.cwd();
+const coversDir = path.resolve(baseDir, "data", "covers");
+
+const extensions: Record<string, string> = {
+  "image/jpeg": ".jpg",
+  "image/png": ".png",
+  "image/webp": ".webp",
+  "image/gif": ".gif"
+};
+
+const maxCoverBytes = 5 * 1024 * 1024;
+const pending = new Map<string, Promise<string>>();
+
+const sign = (instance: CoverInstance, imagePath: string): string =>
+  crypto
+    .createHmac("sha256", instance.apiKey)
+    .update(`${instance.id}\n${imagePath}`)
+    .digest("base64url")
+    .slice(0, 22);
+
+const isSigned = (instance: CoverInstance, imagePath: string, signature: string) => {
+  const expected = Buffer.from(sign(instance, imagePath));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+};
+
+export const resolveCoverPath = (
+  baseUrl: string,
+  imageUrl: string | undefined
+): string | undefined => {
+  if (!imageUrl) {
+    return undefined;
+  }
+  try {
+    const base = new URL(baseUrl);
+    const url = new URL(imageUrl, base);
+    if (url.origin !== base.origin) {
+      return undefined;
+    }
+    const basePath = base.pathname.replace(/\/+$/, "");
+    let imagePath = `${url.pathname}${url.search}`;
+    if (basePath && imagePath.startsWith(`${basePath}/`)) {
+      imagePath = imagePath.slice(basePath.length);
+    }
+    return /^\/MediaCover(Proxy)?\//.test(imagePath) && !imagePath.includes("..")
+      ? imagePath
+      : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+export const coverUrl = (instance: CoverInstance, imagePath: string): string =>
+  `/api/covers/${encodeURIComponent(instance.id)}/${sign(instance, imagePath)}` +
+  `?path=${encodeURIComponent(imagePath)}`;
+
+const findCachedFile = async (
+  hash: string
+): Promise<{ file: string; fresh: boolean } | null> => {
+  const maxAge = config.coverCacheDays * 24 * 60 * 60 * 1000;
+  for (const extension of Object.values(extensions)) {
+    const file = path.join(coversDir, `${hash}${extension}`);
+    try {
+      const stats = await fs.promises.stat(file);
+      return { file, fresh: Date.now() - stats.mtimeMs < maxAge };
+    } catch {
+      continue;
+    }
+  }
+  return null;
+};
+
+const downloadCover = async (
+  instance: CoverInstance,
+  imagePath: string,
+  hash: string
+): Promise<string> => {
+  const response = await axios.get<ArrayBuffer>(imagePath, {
+    baseURL: instance.baseUrl,
+    headers: {
+      "X-Api-Key": instance.apiKey
+    },
+    responseType: "arraybuffer",
+    maxContentLength: maxCoverBytes,
+    timeout: 15000
+  });
+  const contentType = String(response.headers["content-type"] || "")
+    .split(";")[0]
+    .trim()
+    .toLowerCase();
+  const extension = extensions[contentType === "image/jpg" ? "image/jpeg" : contentType];
+  if (!extension) {
+    throw new CoverError("Readarr did not return an image.", 502);
+  }
+
+  await fs.promises.mkdir(coversDir, { recursive: true });
+  const file = path.join(coversDir, `${hash}${extension}`);
+  const tempFile = `${file}.${process.pid}.tmp`;
+  await fs.promises.writeFile(tempFile, Buffer.from(response.data));
+  await fs.promises.rename(tempFile, file);
+  return file;
+};
+
+export const loadCover = async (
+  instance: CoverInstance,
+  signature: string,
+  imagePath: string
+): Promise<string> => {
+  if (!imagePath || !isSigned(instance, imagePath, signature)) {
+    throw new CoverError("Cover not found.");
+  }
+
+  const hash = crypto
+    .createHash("sha256")
+    .update(`${instance.baseUrl}\n${imagePath}`)
+    .digest("hex");
+  const cached = await findCachedFile(hash);
+  if (cached?.fresh) {
+    return cached.file;
+  }
+
+  let request = pending.get(hash);
+  if (!request) {
+    request = downloadCover(instance, imagePath, hash).finally(() => pending.delete(hash));
+    pending.set(hash, request);
+  }
+  try {
+    return await request;
+  } catch (error) {
+    if (cached) {
+      return cached.file;
+    }
+    throw error;
+  }
+};
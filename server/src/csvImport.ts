@@ -0,0 +1,134 @@
+import { normalizeIsbn } from "./identifiers.js";
+
+export type ImportFormat = "goodreads" | "storygraph";
+
+export type ImportRow = {
+  row: number;
+  title: string;
+  author: string;
+  isbn13?: string;
+  goodreadsId?: string;
+  shelf?: string;
+};
+
+export class ImportError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const maxRows = 5000;
+
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let index = 0; index < input.length; index += 1) {
+    const char = input[index];
+    if (quoted) {
+      if (char === '"' && input[index + 1] === '"') {
+        field += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+    if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[index + 1] === "\n") {
+        index += 1;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new ImportError("The CSV file has an unclosed quote.");
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.trim()));
+};
+
+// Goodreads wraps identifiers as ="0618968636" so spreadsheets keep leading zeros.
+const cleanCell = (value: string | undefined): string =>
+  (value || "").trim().replace(/^="?(.*?)"?$/, "$1").trim();
+
+const detectFormat = (header: string[]): ImportFormat => {
+  if (header.includes("Book Id") && header.includes("Exclusive Shelf")) {
+    return "goodreads";
+  }
+  if (header.includes("ISBN/UID") || header.includes("Read Status")) {
+    return "storygraph";
+  }
+  throw new ImportError("Unrecognized CSV: expected a Goodreads or StoryGraph export.");
+};
+
+export const parseExport = (text: string): { format: ImportFormat; rows: ImportRow[] } => {
+  const [header, ...records] = parseCsv(text);
+  if (!header) {
+    throw new ImportError("The CSV file is empty.");
+  }
+  const columns = header.map((name) => name.trim());
+  const format = detectFormat(columns);
+  if (records.length > maxRows) {
+    throw new ImportError(`Imports are limited to ${maxRows} rows.`);
+  }
+
+  const cell = (record: string[], name: string): string => {
+    const index = columns.indexOf(name);
+    return index >= 0 ? cleanCell(record[index]) : "";
+  };
+
+  const rows: ImportRow[] = [];
+  records.forEach((record, index) => {
+    const title = cell(record, "Title");
+    const author =
+      format === "goodreads"
+        ? cell(record, "Author")
+        : cell(record, "Authors").split(",")[0].trim();
+    if (!title) {
+      return;
+    }
+    const isbn =
+      format === "goodreads"
+        ? normalizeIsbn(cell(record, "ISBN13")) || normalizeIsbn(cell(record, "ISBN"))
+        : normalizeIsbn(cell(record, "ISBN/UID"));
+    const goodreadsId = format === "goodreads" ? cell(record, "Book Id") : "";
+    rows.push({
+      row: index + 1,
+      title,
+      author,
+      isbn13: isbn || undefined,
+      goodreadsId: /^\d+$/.test(goodreadsId) ? goodreadsId : undefined,
+      shelf:
+        cell(record, format === "goodreads" ? "Exclusive Shelf" : "Read Status") ||
+        undefined
+    });
+  });
+
+  if (!rows.length) {
+    throw new ImportError("The CSV file has no books.");
+  }
+  return { format, rows };
+};
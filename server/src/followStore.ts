@@ -0,0 +1,92 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { logger } from "./logger.js";
+import type { FollowMonitor } from "./types.js";
+
+export const followMonitors: FollowMonitor[] = ["none", "future", "missing", "all"];
+
+export type FollowRecord = {
+  id: string;
+  userId: string;
+  username: string;
+  instance: string;
+  authorKey: string;
+  authorName: string;
+  foreignAuthorId?: string;
+  authorId?: number;
+  monitor: FollowMonitor;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type FollowRecordInput = Omit<FollowRecord, "id" | "createdAt" | "updatedAt">;
+
+const baseDir = process.env.INIT_CWD || process.cwd();
+const followsPath = path.resolve(baseDir, "data", "follows.json");
+let cached: FollowRecord[] | null = null;
+let writeChain: Promise<void> = Promise.resolve();
+
+const loadFromFile = (): FollowRecord[] => {
+  if (!fs.existsSync(followsPath)) {
+    return [];
+  }
+
+  try {
+    const raw = fs.readFileSync(followsPath, "utf8");
+    const parsed = JSON.parse(raw) as { follows?: FollowRecord[] };
+    return parsed.follows || [];
+  } catch (error) {
+    logger.error({ err: error }, "follows_load_failed");
+    return [];
+  }
+};
+
+const getRecords = (): FollowRecord[] => {
+  if (!cached) {
+    cached = loadFromFile();
+  }
+  return cached;
+};
+
+const persist = (): Promise<void> => {
+  const write = async () => {
+    const payload = JSON.stringify({ follows: getRecords() }, null, 2);
+    await fs.promises.mkdir(path.dirname(followsPath), { recursive: true });
+    await fs.promises.writeFile(`${followsPath}.tmp`, payload, "utf8");
+    await fs.promises.rename(`${followsPath}.tmp`, followsPath);
+  };
+  writeChain = writeChain.then(write, write);
+  return writeChain;
+};
+
+// Following the same author again on an instance updates the existing record.
+export const saveFollow = async (input: FollowRecordInput): Promise<FollowRecord> => {
+  const now = new Date().toISOString();
+  const existing = getRecords().find(
+    (record) =>
+      record.userId === input.userId &&
+      record.instance === input.instance &&
+      record.authorKey === input.authorKey
+  );
+  if (existing) {
+    Object.assign(existing, input, { updatedAt: now });
+    await persist();
+    return existing;
+  }
+
+  const record: FollowRecord = {
+    id: crypto.randomUUID(),
+    ...input,
+    createdAt: now,
+    updatedAt: now
+  };
+  getRecords().push(record);
+  await persist();
+  return record;
+};
+
+export const listFollows = (userId?: string): FollowRecord[] =>
+  getRecords()
+    .filter((record) => !userId || record.userId === userId)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
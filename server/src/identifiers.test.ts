@@ -0,0 +1,219 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import axios from "axios";
+import {
+  fetchIdentifierIsbn,
+  isValidIsbn10,
+  isValidIsbn13,
+  isbn10To13,
+  normalizeIsbn,
+  parseIdentifierUrl
+} from "./identifiers.js";
+import type { ParsedIdentifier } from "./identifiers.js";
+
+describe("ISBN checksums", () => {
+  for (const [value, valid] of [
+    ["0306406152", true],
+    ["0-306-40615-2", true],
+    ["080442957X", true],
+    ["080442957x", true],
+    ["0306406153", false],
+    ["0804429570", false],
+    ["030640615", false]
+  ] as const) {
+    it(`${valid ? "accepts" : "rejects"} ISBN-10 ${value}`, () => {
+      assert.equal(isValidIsbn10(value), valid);
+    });
+  }
+
+  for (const [value, valid] of [
+    ["9780306406157", true],
+    ["978-0-618-96863-3", true],
+    ["9791234567896", true],
+    ["9780306406158", false],
+    ["9770306406157", false],
+    ["978030640615", false]
+  ] as const) {
+    it(`${valid ? "accepts" : "rejects"} ISBN-13 ${value}`, () => {
+      assert.equal(isValidIsbn13(value), valid);
+    });
+  }
+
+  for (const [value, expected] of [
+    ["0306406152", "9780306406157"],
+    ["080442957X", "9780804429573"],
+    ["0-618-96863-6", "9780618968633"],
+    ["043942089X", "9780439420891"]
+  ] as const) {
+    it(`converts ISBN-10 ${value} to ${expected}`, () => {
+      assert.equal(isbn10To13(value), expected);
+      assert.equal(normalizeIsbn(value), expected);
+    });
+  }
+
+  it("normalizes ISBN-13 and rejects invalid input", () => {
+    assert.equal(normalizeIsbn(" 978 0 618 96863 3 "), "9780618968633");
+    assert.equal(normalizeIsbn("9780618968634"), null);
+    assert.equal(normalizeIsbn("hobbit"), null);
+  });
+});
+
+describe("parseIdentifierUrl", () => {
+  const cases: [string, ParsedIdentifier | null][] = [
+    [
+      "https://www.goodreads.com/book/show/5907.The_Hobbit",
+      { field: "goodreads", value: "5907" }
+    ],
+    ["goodreads.com/book/show/5907", { field: "goodreads", value: "5907" }],
+    ["https://www.goodreads.com/author/show/656983.J_R_R_Tolkien", null],
+    [
+      "https://www.amazon.com/dp/B007978NU6",
+      { field: "asin", value: "B007978NU6" }
+    ],
+    [
+      "https://www.amazon.co.uk/gp/product/b007978nu6?psc=1",
+      { field: "asin", value: "B007978NU6" }
+    ],
+    [
+      "https://www.amazon.com/The-Hobbit-J-R-R-Tolkien/dp/B007978NU6/ref=sr_1_1?keywords=hobbit",
+      { field: "asin", value: "B007978NU6" }
+    ],
+    [
+      "https://www.amazon.com/Hobbit-J-R-R-Tolkien/dp/0618968636/ref=sr_1_3",
+      { field: "isbn", value: "9780618968633" }
+    ],
+    [
+      "https://www.amazon.de/gp/product/080442957X",
+      { field: "isbn", value: "9780804429573" }
+    ],
+    ["https://www.amazon.com/s?k=hobbit", null],
+    [
+      "https://www.audible.com/pd/The-Hobbit-Audiobook/B0099RKRTY",
+      { field: "asin", value: "B0099RKRTY" }
+    ],
+    [
+      "https://www.audible.co.uk/pd/Fantasy/The-Hobbit-Audiobook/B0099RKRTY?qid=1",
+      { field: "asin", value: "B0099RKRTY" }
+    ],
+    [
+      "https://openlibrary.org/isbn/9780618968633",
+      { field: "isbn", value: "9780618968633" }
+    ],
+    [
+      "https://openlibrary.org/isbn/0618968636",
+      { field: "isbn", value: "9780618968633" }
+    ],
+    [
+      "https://openlibrary.org/books/OL26331930M/The_Hobbit",
+      { source: "openlibrary", id: "books/OL26331930M", label: "OpenLibrary" }
+    ],
+    [
+      "https://openlibrary.org/works/ol262758w",
+      { source: "openlibrary", id: "works/OL262758W", label: "OpenLibrary" }
+    ],
+    [
+      "https://books.google.com/books?id=pD6arNyKyi8C&hl=en",
+      { source: "googlebooks", id: "pD6arNyKyi8C", label: "Google Books" }
+    ],
+    [
+      "https://www.google.com/books/edition/The_Hobbit/pD6arNyKyi8C?gbpv=1",
+      { source: "googlebooks", id: "pD6arNyKyi8C", label: "Google Books" }
+    ],
+    ["https://www.google.com/search?q=hobbit", null],
+    ["https://example.com/dp/B007978NU6", null],
+    ["Dr.Seuss", null],
+    ["J.R.R.Tolkien", null],
+    ["the hobbit", null],
+    ["9780618968633", null]
+  ];
+
+  for (const [input, expected] of cases) {
+    it(`parses ${input}`, () => {
+      assert.deepEqual(parseIdentifierUrl(input), expected);
+    });
+  }
+});
+
+describe("fetchIdentifierIsbn", () => {
+  let responses: Record<string, unknown>;
+  let requested: string[];
+
+  beforeEach(() => {
+    responses = {};
+    requested = [];
+    mock.method(axios, "get", async (url: string) => {
+      requested.push(url);
+      if (!(url in responses)) {
+        throw new Error(`Unexpected request to ${url}`);
+      }
+      return { data: responses[url] };
+    });
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it("reads an OpenLibrary edition", async () => {
+    responses["https://openlibrary.org/books/OL26331930M.json"] = {
+      isbn_10: ["0618968636"],
+      isbn_13: ["9780618968634", "9780547928227"]
+    };
+    assert.equal(
+      await fetchIdentifierIsbn({
+        source: "openlibrary",
+        id: "books/OL26331930M",
+        label: "OpenLibrary"
+      }),
+      "9780547928227"
+    );
+  });
+
+  it("reads the first edition with an ISBN of an OpenLibrary work", async () => {
+    responses["https://openlibrary.org/works/OL262758W/editions.json"] = {
+      entries: [{}, { isbn_10: ["0618968636"] }]
+    };
+    assert.equal(
+      await fetchIdentifierIsbn({
+        source: "openlibrary",
+        id: "works/OL262758W",
+        label: "OpenLibrary"
+      }),
+      "9780618968633"
+    );
+  });
+
+  it("reads Google Books industry identifiers", async () => {
+    responses["https://www.googleapis.com/books/v1/volumes/pD6arNyKyi8C"] = {
+      volumeInfo: {
+        industryIdentifiers: [
+          { type: "OTHER", identifier: "UOM:39015" },
+          { type: "ISBN_10", identifier: "0618968636" }
+        ]
+      }
+    };
+    assert.equal(
+      await fetchIdentifierIsbn({
+        source: "googlebooks",
+        id: "pD6arNyKyi8C",
+        label: "Google Books"
+      }),
+      "9780618968633"
+    );
+    assert.deepEqual(requested, [
+      "https://www.googleapis.com/books/v1/volumes/pD6arNyKyi8C"
+    ]);
+  });
+
+  it("returns null when no ISBN is listed", async () => {
+    responses["https://www.googleapis.com/books/v1/volumes/abcdefghijkl"] = {};
+    assert.equal(
+      await fetchIdentifierIsbn({
+        source: "googlebooks",
+        id: "abcdefghijkl",
+        label: "Google Books"
+      }),
+      null
+    );
+  });
+});
@@ -0,0 +1,181 @@
+import axios from "axios";
+
+export type IdentifierField = "isbn" | "asin" | "goodreads";
+
+export type ParsedIdentifier =
+  | { field: IdentifierField; value: string }
+  | { source: "openlibrary" | "googlebooks"; id: string; label: string };
+
+const isbn10CheckDigit = (digits: string): string => {
+  let sum = 0;
+  for (let index = 0; index < 9; index += 1) {
+    sum += Number(digits[index]) * (10 - index);
+  }
+  const check = (11 - (sum % 11)) % 11;
+  return check === 10 ? "X" : String(check);
+};
+
+const isbn13CheckDigit = (digits: string): string => {
+  let sum = 0;
+  for (let index = 0; index < 12; index += 1) {
+    sum += Number(digits[index]) * (index % 2 === 0 ? 1 : 3);
+  }
+  return String((10 - (sum % 10)) % 10);
+};
+
+export const cleanIsbn = (value: string): string =>
+  value.replace(/[\s-]/g, "").toUpperCase();
+
+export const isValidIsbn10 = (value: string): boolean => {
+  const isbn = cleanIsbn(value);
+  return /^\d{9}[\dX]$/.test(isbn) && isbn10CheckDigit(isbn) === isbn[9];
+};
+
+export const isValidIsbn13 = (value: string): boolean => {
+  const isbn = cleanIsbn(value);
+  return /^97[89]\d{10}$/.test(isbn) && isbn13CheckDigit(isbn) === isbn[12];
+};
+
+export const isbn10To13 = (value: string): string => {
+  const core = `978${cleanIsbn(value).slice(0, 9)}`;
+  return core + isbn13CheckDigit(core);
+};
+
+export const looksLikeIsbn13 = (value: string): boolean =>
+  /^97[89]\d{10}$/.test(cleanIsbn(value));
+
+export const isUrl = (value: string): boolean => /^https?:\/\//i.test(value.trim());
+
+export const normalizeIsbn = (value: string): string | null => {
+  if (isValidIsbn13(value)) {
+    return cleanIsbn(value);
+  }
+  return isValidIsbn10(value) ? isbn10To13(value) : null;
+};
+
+const asinOrIsbn = (value: string): ParsedIdentifier => {
+  const asin = value.toUpperCase();
+  return isValidIsbn10(asin)
+    ? { field: "isbn", value: isbn10To13(asin) }
+    : { field: "asin", value: asin };
+};
+
+const readUrl = (input: string): URL | null => {
+  const candidate = /^[a-z][a-z0-9+.-]*:\/\//i.test(input) ? input : `https://${input}`;
+  try {
+    const url = new URL(candidate);
+    return url.hostname.includes(".") ? url : null;
+  } catch {
+    return null;
+  }
+};
+
+export const parseIdentifierUrl = (input: string): ParsedIdentifier | null => {
+  if (/\s/.test(input.trim())) {
+    return null;
+  }
+  const url = readUrl(input.trim());
+  if (!url) {
+    return null;
+  }
+  const host = url.hostname.toLowerCase().replace(/^www\./, "");
+  const path = decodeURIComponent(url.pathname);
+
+  if (/(^|\.)goodreads\.com$/.test(host)) {
+    const match = path.match(/\/book\/show\/(\d+)/);
+    return match ? { field: "goodreads", value: match[1] } : null;
+  }
+
+  if (/(^|\.)audible\.[a-z.]+$/.test(host)) {
+    const match = path.match(/\/pd\/(?:[^/]+\/)*([A-Z0-9]{10})(?:\/|$)/i);
+    return match ? { field: "asin", value: match[1].toUpperCase() } : null;
+  }
+
+  if (/(^|\.)amazon\.[a-z.]+$/.test(host) || host === "amzn.com") {
+    const match = path.match(
+      /\/(?:dp|gp\/product|gp\/aw\/d|exec\/obidos\/ASIN|d)\/([A-Z0-9]{10})(?:[/?]|$)/i
+    );
+    return match ? asinOrIsbn(match[1]) : null;
+  }
+
+  if (/(^|\.)openlibrary\.org$/.test(host)) {
+    const isbn = path.match(/\/isbn\/([\dXx-]{10,17})/);
+    if (isbn) {
+      const value = normalizeIsbn(isbn[1]);
+      return value ? { field: "isbn", value } : null;
+    }
+    const match = path.match(/\/(books|works)\/(OL\d+[MW])/i);
+    return match
+      ? {
+          source: "openlibrary",
+          id: `${match[1]}/${match[2].toUpperCase()}`,
+          label: "OpenLibrary"
+        }
+      : null;
+  }
+
+  const googleBooks = /(^|\.)books\.google\.[a-z.]+$/.test(host);
+  if (googleBooks || (/(^|\.)google\.[a-z.]+$/.test(host) && path.startsWith("/books"))) {
+    const id =
+      url.searchParams.get("id") ||
+      path.match(/\/books\/edition\/[^/]*\/([\w-]{12})(?:\/|$)/)?.[1];
+    return id ? { source: "googlebooks", id, label: "Google Books" } : null;
+  }
+
+  return null;
+};
+
+type OpenLibraryEdition = {
+  isbn_13?: string[];
+  isbn_10?: string[];
+};
+
+type GoogleVolume = {
+  volumeInfo?: {
+    industryIdentifiers?: { type?: string; identifier?: string }[];
+  };
+};
+
+const firstIsbn = (values: (string | undefined)[]): string | null => {
+  for (const value of values) {
+    const isbn = value ? normalizeIsbn(value) : null;
+    if (isbn) {
+      return isbn;
+    }
+  }
+  return null;
+};
+
+export const fetchIdentifierIsbn = async (
+  identifier: Extract<ParsedIdentifier, { source: string }>
+): Promise<string | null> => {
+  if (identifier.source === "openlibrary") {
+    if (identifier.id.startsWith("books/")) {
+      const response = await axios.get<OpenLibraryEdition>(
+        `https://openlibrary.org/${identifier.id}.json`,
+        { timeout: 8000 }
+      );
+      return firstIsbn([...(response.data.isbn_13 || []), ...(response.data.isbn_10 || [])]);
+    }
+    const response = await axios.get<{ entries?: OpenLibraryEdition[] }>(
+      `https://openlibrary.org/${identifier.id}/editions.json`,
+      { params: { limit: 20 }, timeout: 8000 }
+    );
+    return firstIsbn(
+      (response.data.entries || []).flatMap((edition) => [
+        ...(edition.isbn_13 || []),
+        ...(edition.isbn_10 || [])
+      ])
+    );
+  }
+
+  const response = await axios.get<GoogleVolume>(
+    `https://www.googleapis.com/books/v1/volumes/${encodeURIComponent(identifier.id)}`,
+    { timeout: 8000 }
+  );
+  return firstIsbn(
+    (response.data.volumeInfo?.industryIdentifiers || [])
+      .filter((entry) => entry.type === "ISBN_13" || entry.type === "ISBN_10")
+      .map((entry) => entry.identifier)
+  );
+};
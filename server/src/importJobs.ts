@@ -0,0 +1,221 @@
+import crypto from "crypto";
+import type { ImportFormat, ImportRow } from "./csvImport.js";
+import { logger } from "./logger.js";
+import type { RequestPayload } from "./requestStore.js";
+import type { ImportMatch } from "./types.js";
+
+export type ImportRowStatus = ImportMatch["status"];
+
+export type ImportRowReport = ImportRow & {
+  status: ImportRowStatus;
+  instances: Record<string, ImportMatch>;
+};
+
+export type ImportOutcome = {
+  row: number;
+  title: string;
+  instance: string;
+  status: "requested" | "pending" | "skipped" | "unavailable" | "failed";
+  error?: string;
+  requestId?: string;
+};
+
+export type ImportSelection = {
+  row: number;
+  choices?: Record<string, number>;
+};
+
+export type ImportJobStatus = "matching" | "ready" | "requesting" | "done";
+
+export type ImportJob = {
+  id: string;
+  userId: string;
+  username: string;
+  fileName?: string;
+  format: ImportFormat;
+  status: ImportJobStatus;
+  total: number;
+  processed: number;
+  rows: ImportRowReport[];
+  outcomes: ImportOutcome[];
+  createdAt: string;
+  updatedAt: string;
+};
+
+type MatchRow = (row: ImportRow, instanceId: string) => Promise<ImportMatch>;
+
+type SubmitRow = (
+  row: ImportRowReport,
+  instanceId: string,
+  payload: RequestPayload,
+  itemKey?: string
+) => Promise<Pick<ImportOutcome, "status" | "error" | "requestId">>;
+
+const jobs = new Map<string, ImportJob>();
+const jobTtlMs = 24 * 60 * 60 * 1000;
+const statusOrder: ImportRowStatus[] = [
+  "matched",
+  "ambiguous",
+  "owned",
+  "not_found",
+  "error"
+];
+
+const touch = (job: ImportJob): void => {
+  job.updatedAt = new Date().toISOString();
+};
+
+const pruneJobs = (): void => {
+  const cutoff = Date.now() - jobTtlMs;
+  for (const [id, job] of jobs) {
+    const finished = job.status === "ready" || job.status === "done";
+    if (finished && Date.parse(job.updatedAt) < cutoff) {
+      jobs.delete(id);
+    }
+  }
+};
+
+const summarizeRow = (matches: ImportMatch[]): ImportRowStatus =>
+  statusOrder.find((status) => matches.some((match) => match.status === status)) ||
+  "error";
+
+const describeFailure = (error: unknown): string =>
+  error instanceof Error ? error.message : "Unexpected error.";
+
+export const getImportJob = (id: string): ImportJob | undefined => jobs.get(id);
+
+export const startImportJob = (
+  user: { id: string; username: string },
+  fileName: string | undefined,
+  parsed: { format: ImportFormat; rows: ImportRow[] },
+  instanceIds: string[],
+  match: MatchRow
+): ImportJob => {
+  pruneJobs();
+  const now = new Date().toISOString();
+  const job: ImportJob = {
+    id: crypto.randomUUID(),
+    userId: user.id,
+    username: user.username,
+    fileName,
+    format: parsed.format,
+    status: "matching",
+    total: parsed.rows.length,
+    processed: 0,
+    rows: [],
+    outcomes: [],
+    createdAt: now,
+    updatedAt: now
+  };
+  jobs.set(job.id, job);
+
+  const run = async () => {
+    for (const row of parsed.rows) {
+      const entries = await Promise.all(
+        instanceIds.map(async (instanceId): Promise<[string, ImportMatch]> => {
+          try {
+            return [instanceId, await match(row, instanceId)];
+          } catch (error) {
+            return [instanceId, { status: "error", error: describeFailure(error) }];
+          }
+        })
+      );
+      job.rows.push({
+        ...row,
+        status: summarizeRow(entries.map(([, entry]) => entry)),
+        instances: Object.fromEntries(entries)
+      });
+      job.processed += 1;
+      touch(job);
+    }
+    job.status = "ready";
+    touch(job);
+  };
+
+  void run().catch((error) => {
+    logger.error({ err: error, job: job.id }, "import_match_failed");
+    job.status = "ready";
+    touch(job);
+  });
+  return job;
+};
+
+const resolvePayload = (
+  match: ImportMatch | undefined,
+  choice: number | undefined
+): { payload: RequestPayload; itemKey?: string } | null => {
+  if (match?.status === "matched") {
+    return {
+      payload: { book: match.lookup, existingId: match.existingId },
+      itemKey: match.key
+    };
+  }
+  const candidate =
+    match?.status === "ambiguous" && choice !== undefined
+      ? match.candidates?.[choice]
+      : undefined;
+  return candidate
+    ? { payload: { book: candidate.lookup }, itemKey: candidate.key }
+    : null;
+};
+
+export const startImportRequests = (
+  job: ImportJob,
+  selections: ImportSelection[],
+  instanceIds: string[],
+  submit: SubmitRow
+): ImportJob => {
+  const selected = selections
+    .map((selection) => ({
+      selection,
+      row: job.rows.find((entry) => entry.row === selection.row)
+    }))
+    .filter((entry): entry is { selection: ImportSelection; row: ImportRowReport } =>
+      Boolean(entry.row)
+    );
+
+  job.status = "requesting";
+  job.total = selected.length * instanceIds.length;
+  job.processed = 0;
+  job.outcomes = [];
+  touch(job);
+
+  const run = async () => {
+    for (const { selection, row } of selected) {
+      for (const instanceId of instanceIds) {
+        const match = row.instances[instanceId];
+        const outcome = { row: row.row, title: row.title, instance: instanceId };
+        const resolved = resolvePayload(match, selection.choices?.[instanceId]);
+        if (match?.status === "owned") {
+          job.outcomes.push({ ...outcome, status: "skipped" });
+        } else if (!resolved) {
+          job.outcomes.push({ ...outcome, status: "unavailable", error: match?.error });
+        } else {
+          try {
+            job.outcomes.push({
+              ...outcome,
+              ...(await submit(row, instanceId, resolved.payload, resolved.itemKey))
+            });
+          } catch (error) {
+            job.outcomes.push({
+              ...outcome,
+              status: "failed",
+              error: describeFailure(error)
+            });
+          }
+        }
+        job.processed += 1;
+        touch(job);
+      }
+    }
+    job.status = "done";
+    touch(job);
+  };
+
+  void run().catch((error) => {
+    logger.error({ err: error, job: job.id }, "import_request_failed");
+    job.status = "done";
+    touch(job);
+  });
+  return job;
+};
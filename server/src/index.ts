@@ -1,4 +1,5 @@
 import cors from "cors";
+import crypto from "crypto";
 import express from "express";
 import path from "path";
 import fs from "fs";
@@ -6,8 +7,124 @@ import { fileURLToPath } from "url";
 import axios from "axios";
 import { config } from "./config.js";
 import { logger } from "./logger.js";
-import { requestBook, searchBooks, testConnection } from "./readarrClient.js";
-import { SettingsError, getSettings, saveSettings } from "./settingsStore.js";
+import { authenticate, isAdmin, requireAdmin } from "./auth.js";
+import { CoverError, loadCover } from "./coverProxy.js";
+import { ImportError, parseExport } from "./csvImport.js";
+import type { ImportSelection } from "./importJobs.js";
+import { getImportJob, startImportJob, startImportRequests } from "./importJobs.js";
+import {
+  NotificationError,
+  notify,
+  sendTestNotification
+} from "./notifications.js";
+import {
+  existingRootFolderMessage,
+  fetchBookDetail,
+  fetchProfiles,
+  fetchSeriesEntries,
+  findInvalidOverride,
+  findMissingProfiles,
+  followAuthor,
+  hasEdition,
+  matchImportRow,
+  pickMatchKeys,
+  requestBook,
+  sendCommand,
+  searchBooks,
+  summarizeBook,
+  testConnection,
+  withdrawBook
+} from "./readarrClient.js";
+import type { ReadarrCommand } from "./readarrClient.js";
+import type {
+  RequestPayload,
+  RequestRecord,
+  RequestStatus
+} from "./requestStore.js";
+import type { JobStatus } from "./jobQueue.js";
+import {
+  JobError,
+  cancelJob,
+  cancelRequestJobs,
+  countJobs,
+  enqueueJob,
+  listJobs,
+  registerJobHandler,
+  restoreJobs,
+  retryJob,
+  startJobQueue
+} from "./jobQueue.js";
+import {
+  addRequest,
+  getRequest,
+  listRequests,
+  queryRequests,
+  updateRequest
+} from "./requestStore.js";
+import type {
+  InstanceSettings,
+  OverrideField,
+  Settings
+} from "./settingsStore.js";
+import type {
+  AuthorItem,
+  FollowMonitor,
+  ReadarrAuthor,
+  RequestOutcome,
+  RequestOverrides,
+  RequestWithdrawal,
+  SeriesEntry
+} from "./types.js";
+import { bookMatchKeys } from "./bookMatching.js";
+import { followMonitors, listFollows, saveFollow } from "./followStore.js";
+import { WebhookError, parseReadarrWebhook } from "./readarrWebhook.js";
+import {
+  InstanceOfflineError,
+  resetInstanceHealth,
+  withInstanceHealth
+} from "./instanceHealth.js";
+import type { SearchQuery } from "./searchQuery.js";
+import { QueryError, resolveSearchQuery } from "./searchQuery.js";
+import {
+  clearSearchCache,
+  getSearchCacheStats,
+  invalidateCachedLookups
+} from "./searchCache.js";
+import {
+  getLibrary,
+  getLibraryStatus,
+  refreshLibraries,
+  refreshLibrary,
+  refreshLibraryBooks,
+  startLibraryIndex
+} from "./libraryIndex.js";
+import {
+  applyWebhookEvent,
+  refreshTracking,
+  startRequestTracker
+} from "./requestTracker.js";
+import {
+  SettingsError,
+  findInstance,
+  getSettings,
+  normalizeNotificationChannel,
+  overrideFields,
+  saveSettings,
+  summarizeInstances
+} from "./settingsStore.js";
+import {
+  UserError,
+  createSession,
+  createUser,
+  deleteSession,
+  deleteUser,
+  ensureBootstrapAdmin,
+  hasUsers,
+  listUsers,
+  updateNotificationPreferences,
+  updateUser,
+  verifyCredentials
+} from "./userStore.js";
 
 const app = express();
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
@@ -52,37 +169,124 @@ if (corsOrigins.length) {
   );
 }
 
-app.use((req, res, next) => {
-  if (req.path === "/api/health") {
-    return next();
+app.use(authenticate);
+
+app.get("/api/health", (req, res) => {
+  res.json({ status: "ok" });
+});
+
+app.get("/api/auth/status", (req, res) => {
+  res.json({ setupRequired: !hasUsers() });
+});
+
+app.post("/api/auth/setup", async (req, res, next) => {
+  if (hasUsers()) {
+    return res.status(409).json({ error: "Setup has already been completed." });
   }
 
-  if (!config.auth) {
-    return next();
+  try {
+    const user = await createUser({
+      username: req.body?.username,
+      password: req.body?.password,
+      role: "admin"
+    });
+    const token = await createSession(user.id);
+    return res.json({ token, user });
+  } catch (error) {
+    return next(error);
   }
+});
 
-  const header = req.header("authorization") || "";
-  let authorized = false;
+app.post("/api/auth/login", async (req, res, next) => {
+  const username = String(req.body?.username || "");
+  const password = String(req.body?.password || "");
+  if (!username || !password) {
+    return res.status(400).json({ error: "Missing username or password." });
+  }
 
-  if (header.startsWith("Basic ")) {
-    const decoded = Buffer.from(header.slice(6), "base64").toString("utf8");
-    const password = decoded.split(":").slice(1).join(":");
-    authorized = password === config.auth;
-  } else if (header.startsWith("Bearer ")) {
-    authorized = header.slice(7).trim() === config.auth;
-  } else if (header.trim() === config.auth) {
-    authorized = true;
+  try {
+    const user = await verifyCredentials(username, password);
+    if (!user) {
+      return res.status(401).json({ error: "Invalid username or password." });
+    }
+    const token = await createSession(user.id);
+    return res.json({ token, user });
+  } catch (error) {
+    return next(error);
   }
+});
 
-  if (!authorized) {
-    return res.status(401).json({ error: "Unauthorized" });
+app.post("/api/auth/logout", async (req, res, next) => {
+  try {
+    if (req.sessionToken) {
+      await deleteSession(req.sessionToken);
+    }
+    return res.json({ status: "ok" });
+  } catch (error) {
+    return next(error);
   }
+});
 
-  return next();
+app.get("/api/auth/me", (req, res) => {
+  res.json({ user: req.user });
 });
 
-app.get("/api/health", (req, res) => {
-  res.json({ status: "ok" });
+app.put("/api/auth/me/notifications", async (req, res, next) => {
+  try {
+    const user = await updateNotificationPreferences(req.user!.id, {
+      events: Array.isArray(req.body?.events) ? req.body.events : [],
+      email: typeof req.body?.email === "string" ? req.body.email : undefined
+    });
+    return res.json({ user });
+  } catch (error) {
+    return next(error);
+  }
+});
+
+app.get("/api/users", requireAdmin, (req, res) => {
+  res.json({ users: listUsers() });
+});
+
+app.post("/api/users", requireAdmin, async (req, res, next) => {
+  try {
+    const user = await createUser({
+      username: req.body?.username,
+      password: req.body?.password,
+      role: req.body?.role
+    });
+    return res.json({ user });
+  } catch (error) {
+    return next(error);
+  }
+});
+
+app.patch("/api/users/:id", requireAdmin, async (req, res, next) => {
+  try {
+    const user = await updateUser(req.params.id, {
+      role: req.body?.role,
+      autoApprove:
+        typeof req.body?.autoApprove === "boolean"
+          ? req.body.autoApprove
+          : undefined,
+      password: req.body?.password || undefined
+    });
+    return res.json({ user });
+  } catch (error) {
+    return next(error);
+  }
+});
+
+app.delete("/api/users/:id", requireAdmin, async (req, res, next) => {
+  if (req.params.id === req.user?.id) {
+    return res.status(400).json({ error: "You cannot delete your own account." });
+  }
+
+  try {
+    await deleteUser(req.params.id);
+    return res.json({ status: "ok" });
+  } catch (error) {
+    return next(error);
+  }
 });
 
 app.get("/api/settings", (req, res) => {
@@ -90,10 +294,14 @@ app.get("/api/settings", (req, res) => {
   if (!state.configured || !state.settings) {
     return res.json({ configured: false });
   }
-  return res.json({ configured: true, settings: state.settings });
+  const instances = summarizeInstances(state.settings);
+  if (!isAdmin(req)) {
+    return res.json({ configured: true, instances });
+  }
+  return res.json({ configured: true, instances, settings: state.settings });
 });
 
-app.post("/api/settings", async (req, res, next) => {
+app.post("/api/settings", requireAdmin, async (req, res, next) => {
   const settings = req.body?.settings;
   if (!settings) {
     return res.status(400).json({ error: "Missing settings payload." });
@@ -101,19 +309,64 @@ app.post("/api/settings", async (req, res, next) => {
 
   try {
     await saveSettings(settings);
-    return res.json({ status: "ok" });
+    resetInstanceHealth();
+    clearSearchCache();
+    void refreshLibraries();
+    const saved = getSettings().settings?.instances || [];
+    const warnings = (
+      await Promise.all(
+        saved
+          .filter(
+            (instance) =>
+              instance.rootFolderPath ||
+              instance.qualityProfileId ||
+              instance.metadataProfileId
+          )
+          .map((instance) =>
+            fetchProfiles(instance)
+              .then((profiles) =>
+                findMissingProfiles(instance, profiles).map(
+                  (warning) => `${instance.label}: ${warning}`
+                )
+              )
+              .catch(() => [])
+          )
+      )
+    ).flat();
+    return res.json({ status: "ok", warnings });
   } catch (error) {
     return next(error);
   }
 });
 
-app.post("/api/settings/test", async (req, res, next) => {
-  const instance = req.body?.instance;
-  const settings = req.body?.settings;
+app.get(
+  "/api/settings/instances/:instanceId/profiles",
+  requireAdmin,
+  async (req, res, next) => {
+    const settings = requireSettings(res);
+    if (!settings) {
+      return undefined;
+    }
 
-  if (!instance || (instance !== "ebooks" && instance !== "audio")) {
-    return res.status(400).json({ error: "Invalid instance." });
+    const instance = findInstance(settings, req.params.instanceId);
+    if (!instance) {
+      return res.status(404).json({ error: "Unknown Readarr instance." });
+    }
+
+    try {
+      const profiles = await fetchProfiles(instance);
+      return res.json({
+        ...profiles,
+        warnings: findMissingProfiles(instance, profiles)
+      });
+    } catch (error) {
+      return next(error);
+    }
   }
+);
+
+app.post("/api/settings/test", requireAdmin, async (req, res, next) => {
+  const settings = req.body?.settings;
 
   if (!settings?.baseUrl || !settings?.apiKey) {
     return res.status(400).json({ error: "Missing base URL or API key." });
@@ -130,6 +383,57 @@ app.post("/api/settings/test", async (req, res, next) => {
   }
 });
 
+const describeError = (error: unknown): { status: number; message: string } => {
+  let status = 500;
+  let message = "Unexpected error.";
+
+  if (
+    error instanceof SettingsError ||
+    error instanceof UserError ||
+    error instanceof WebhookError ||
+    error instanceof NotificationError ||
+    error instanceof InstanceOfflineError ||
+    error instanceof QueryError ||
+    error instanceof CoverError ||
+    error instanceof ImportError ||
+    error instanceof JobError
+  ) {
+    status = error.status;
+    message = error.message;
+  } else if (axios.isAxiosError(error)) {
+    status = error.response?.status || 502;
+    if (error.code === "ECONNREFUSED") {
+      message = "Unable to reach Readarr. Check the base URL and network.";
+    } else if (status === 401 || status === 403) {
+      message = "Readarr rejected the API key.";
+    } else {
+      const data = error.response?.data as
+        | { message?: string; error?: string }
+        | undefined;
+      message =
+        data?.message || data?.error || error.message || "Readarr error.";
+    }
+  } else if (error instanceof Error) {
+    message = error.message;
+  }
+
+  return { status, message };
+};
+
+app.post("/api/settings/notifications/test", requireAdmin, async (req, res, next) => {
+  if (!req.body?.channel) {
+    return res.status(400).json({ error: "Missing channel payload." });
+  }
+
+  try {
+    const channel = normalizeNotificationChannel(req.body.channel);
+    await sendTestNotification(channel, req.user!.notifications?.email);
+    return res.json({ status: "ok" });
+  } catch (error) {
+    return next(error);
+  }
+});
+
 const requireSettings = (res: express.Response) => {
   const state = getSettings();
   if (!state.configured || !state.settings) {
@@ -139,10 +443,23 @@ const requireSettings = (res: express.Response) => {
   return state.settings;
 };
 
+const readSearchQuery = async (
+  req: express.Request,
+  res: express.Response
+): Promise<SearchQuery | null> => {
+  try {
+    return await resolveSearchQuery(String(req.query.term || ""));
+  } catch (error) {
+    const { status, message } = describeError(error);
+    res.status(status).json({ error: message });
+    return null;
+  }
+};
+
 app.get("/api/search", async (req, res, next) => {
-  const term = String(req.query.term || "").trim();
-  if (!term) {
-    return res.status(400).json({ error: "Missing search term." });
+  const query = await readSearchQuery(req, res);
+  if (!query) {
+    return undefined;
   }
 
   const settings = requireSettings(res);
@@ -151,39 +468,526 @@ app.get("/api/search", async (req, res, next) => {
   }
 
   try {
-    const items = await searchBooks(settings.ebooks, settings.audio, term);
-    return res.json({ items });
+    const errors: Record<string, string> = {};
+    const authors = new Map<string, AuthorItem>();
+    const items = await searchBooks(settings.instances, query, getLibrary, {
+      onAuthors: (batch) => batch.forEach((author) => authors.set(author.key, author)),
+      onInstanceError: (instanceId, error) => {
+        errors[instanceId] = describeError(error).message;
+      }
+    });
+    return res.json({ items, authors: Array.from(authors.values()), errors });
   } catch (error) {
     return next(error);
   }
 });
 
-app.post("/api/request/ebook", async (req, res, next) => {
-  const book = req.body?.book;
-  const existingId = Number(req.body?.existingId);
-  if (!book && !(Number.isFinite(existingId) && existingId > 0)) {
-    return res.status(400).json({ error: "Missing book payload." });
+app.get("/api/search/cache", requireAdmin, (req, res) =>
+  res.json(getSearchCacheStats())
+);
+
+app.delete("/api/search/cache", requireAdmin, (req, res) => {
+  clearSearchCache();
+  return res.json(getSearchCacheStats());
+});
+
+app.get("/api/search/stream", async (req, res) => {
+  const query = await readSearchQuery(req, res);
+  if (!query) {
+    return undefined;
+  }
+
+  const settings = requireSettings(res);
+  if (!settings) {
+    return undefined;
   }
 
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no"
+  });
+  let closed = false;
+  res.on("close", () => {
+    closed = true;
+  });
+  const send = (event: string, data: unknown) => {
+    if (!closed) {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    }
+  };
+
+  try {
+    const items = await searchBooks(settings.instances, query, getLibrary, {
+      onBatch: (batch) => send("items", { items: batch }),
+      onAuthors: (batch) => send("authors", { authors: batch }),
+      onInstanceError: (instanceId, error) =>
+        send("instance-error", {
+          instance: instanceId,
+          error: describeError(error).message
+        })
+    });
+    send("done", { total: items.length });
+  } catch (error) {
+    logger.error({ err: error }, "search_stream_failed");
+    send("error", { error: describeError(error).message });
+  }
+  return res.end();
+});
+
+app.get("/api/books/:key", async (req, res, next) => {
   const settings = requireSettings(res);
   if (!settings) {
     return undefined;
   }
 
   try {
-    await requestBook(
-      settings.ebooks,
-      book,
-      Number.isFinite(existingId) && existingId > 0 ? existingId : undefined
+    const errors: Record<string, string> = {};
+    const book = await fetchBookDetail(settings.instances, req.params.key, getLibrary, {
+      onInstanceError: (instanceId, error) => {
+        errors[instanceId] = describeError(error).message;
+      }
+    });
+    if (!book) {
+      return res.status(404).json({ error: "Book not found." });
+    }
+    return res.json({ book, errors });
+  } catch (error) {
+    return next(error);
+  }
+});
+
+const readText = (value: unknown): string | undefined => {
+  const text = typeof value === "string" ? value.trim() : "";
+  return text || undefined;
+};
+
+const loadSeries = async (
+  settings: Settings,
+  key: string,
+  requested: string | undefined,
+  errors: Record<string, string>
+): Promise<{ title: string; entries: SeriesEntry[] } | null> => {
+  const onInstanceError = (instanceId: string, error: unknown) => {
+    errors[instanceId] = describeError(error).message;
+  };
+  const book = await fetchBookDetail(settings.instances, key, getLibrary, {
+    onInstanceError
+  });
+  const link = requested
+    ? book?.seriesLinks.find(
+        (entry) => entry.title.toLowerCase() === requested.toLowerCase()
+      )
+    : book?.seriesLinks[0];
+  if (!book || !link) {
+    return null;
+  }
+  const entries = await fetchSeriesEntries(
+    settings.instances,
+    book,
+    link.title,
+    getLibrary,
+    { onInstanceError }
+  );
+  return { title: link.title, entries };
+};
+
+app.get("/api/books/:key/series", async (req, res, next) => {
+  const settings = requireSettings(res);
+  if (!settings) {
+    return undefined;
+  }
+
+  try {
+    const errors: Record<string, string> = {};
+    const series = await loadSeries(
+      settings,
+      req.params.key,
+      readText(req.query.series),
+      errors
     );
-    return res.json({ status: "ok" });
+    if (!series) {
+      return res.status(404).json({ error: "This book is not part of a known series." });
+    }
+    return res.json({ ...series, errors });
   } catch (error) {
     return next(error);
   }
 });
 
-app.post("/api/request/audiobook", async (req, res, next) => {
+const findSettingsInstance = (id: string): InstanceSettings => {
+  const { settings } = getSettings();
+  const instance = settings ? findInstance(settings, id) : undefined;
+  if (!instance) {
+    throw new SettingsError(`Readarr instance "${id}" is no longer configured.`);
+  }
+  return instance;
+};
+
+// The item key may come from another instance's edition after results are
+// merged, so match cached searches the same way results are merged.
+const requestMatchKeys = (
+  record: RequestRecord,
+  side: "lookup" | "register" = "lookup"
+): string[] =>
+  bookMatchKeys({
+    key: record.itemKey || "",
+    title: record.title,
+    author: record.author,
+    isbn13: record.isbn13
+  })[side];
+
+registerJobHandler("request", {
+  run: async (job) => {
+    const record = job.requestId ? getRequest(job.requestId) : undefined;
+    if (!record) {
+      return;
+    }
+    const instance = findSettingsInstance(job.instance);
+    const payload = job.payload as RequestPayload;
+    const outcome = await requestBook(
+      instance,
+      payload.book,
+      payload.existingId,
+      record.overrides,
+      payload.editionId
+    );
+    const { bookId } = outcome;
+    invalidateCachedLookups(instance.id, requestMatchKeys(record));
+    if (bookId) {
+      void refreshLibraryBooks(instance, [bookId]);
+    }
+    await updateRequest(record.id, {
+      status: "submitted",
+      error: undefined,
+      payload: undefined,
+      bookId,
+      outcome,
+      stage: bookId ? "searching" : undefined
+    });
+    if (bookId && outcome.action === "monitored") {
+      await enqueueJob(
+        {
+          kind: "command",
+          instance: instance.id,
+          label: `Search for ${record.title}`,
+          requestId: record.id,
+          payload: { name: "BookSearch", bookIds: [bookId] }
+        },
+        true
+      );
+    }
+  },
+  onFailed: async (job, message) => {
+    const failed = job.requestId
+      ? await updateRequest(job.requestId, { status: "failed", error: message })
+      : undefined;
+    if (failed) {
+      notify("request.failed", failed);
+    }
+  },
+  onCancelled: async (job, cancelledBy) => {
+    if (job.requestId) {
+      await updateRequest(job.requestId, {
+        status: "cancelled",
+        error: undefined,
+        payload: undefined,
+        cancelledBy,
+        cancelledAt: new Date().toISOString()
+      });
+    }
+  }
+});
+
+registerJobHandler("command", {
+  run: async (job) => {
+    await sendCommand(findSettingsInstance(job.instance), job.payload as ReadarrCommand);
+    const record = job.requestId ? getRequest(job.requestId) : undefined;
+    if (record?.outcome && !record.outcome.searchTriggered) {
+      await updateRequest(record.id, {
+        outcome: { ...record.outcome, searchTriggered: true }
+      });
+    }
+  }
+});
+
+const submitToReadarr = async (
+  record: RequestRecord,
+  payload: RequestPayload
+): Promise<RequestRecord> => {
+  const { job, error } = await enqueueJob(
+    {
+      kind: "request",
+      instance: record.instance,
+      label: record.title,
+      requestId: record.id,
+      payload
+    },
+    true
+  );
+  if (job.status === "failed") {
+    throw error;
+  }
+  if (job.status === "queued") {
+    await updateRequest(record.id, { status: "queued", error: job.lastError });
+  }
+  return getRequest(record.id) || record;
+};
+
+const readId = (value: unknown): number | undefined => {
+  const parsed = Number(value);
+  return value !== "" && Number.isInteger(parsed) && parsed > 0 ? parsed : undefined;
+};
+
+const readOverrides = (value: unknown): RequestOverrides | undefined => {
+  if (!value || typeof value !== "object") {
+    return undefined;
+  }
+  const input = value as Record<string, unknown>;
+  const tags = Array.isArray(input.tags)
+    ? input.tags.map(readId).filter((tag): tag is number => tag != null)
+    : [];
+  const overrides: RequestOverrides = {
+    rootFolderPath: readText(input.rootFolderPath),
+    qualityProfileId: readId(input.qualityProfileId),
+    metadataProfileId: readId(input.metadataProfileId),
+    tags: tags.length ? tags : undefined
+  };
+  return overrideFields.some((field) => overrides[field] != null)
+    ? overrides
+    : undefined;
+};
+
+const overrideLabels: Record<OverrideField, string> = {
+  rootFolderPath: "a root folder",
+  qualityProfileId: "a quality profile",
+  metadataProfileId: "a metadata profile",
+  tags: "tags"
+};
+
+const allowedOverrides = (
+  req: express.Request,
+  settings: Settings
+): readonly OverrideField[] =>
+  isAdmin(req) ? overrideFields : settings.requesterOverrides || [];
+
+const legacyRequestKinds: Record<string, InstanceSettings["kind"]> = {
+  ebook: "ebook",
+  audiobook: "audiobook"
+};
+
+const resolveRequestInstance = (
+  settings: Settings,
+  id: string
+): InstanceSettings | undefined => {
+  const instance = findInstance(settings, id);
+  if (instance || !legacyRequestKinds[id]) {
+    return instance;
+  }
+  return settings.instances.find((entry) => entry.kind === legacyRequestKinds[id]);
+};
+
+type RequestItem = Partial<
+  Pick<
+    RequestRecord,
+    | "groupId"
+    | "itemKey"
+    | "title"
+    | "author"
+    | "isbn13"
+    | "foreignBookId"
+    | "goodreadsId"
+  >
+>;
+
+const placeRequest = async (
+  req: express.Request,
+  settings: Settings,
+  instance: InstanceSettings,
+  payload: RequestPayload,
+  item: RequestItem,
+  overrides?: RequestOverrides
+): Promise<{
+  status: "ok" | "pending";
+  request: RequestRecord;
+  outcome?: RequestOutcome;
+}> => {
+  const user = req.user!;
+  const summary = payload.book ? summarizeBook(payload.book) : undefined;
+  const needsApproval =
+    Boolean(settings.requireApproval) && !isAdmin(req) && !user.autoApprove;
+
+  const record = await addRequest({
+    userId: user.id,
+    username: user.username,
+    instance: instance.id,
+    groupId: item.groupId,
+    itemKey: item.itemKey,
+    title: item.title || summary?.title || "Untitled",
+    author: item.author || summary?.author || "Unknown author",
+    isbn13: item.isbn13 || summary?.isbn13,
+    foreignBookId: item.foreignBookId || summary?.foreignBookId,
+    goodreadsId: item.goodreadsId || summary?.goodreadsId,
+    overrides,
+    status: needsApproval ? "pending" : "submitted",
+    payload: needsApproval ? payload : undefined
+  });
+  notify("request.created", record);
+
+  if (needsApproval) {
+    return { status: "pending", request: record };
+  }
+
+  const request = await submitToReadarr(record, payload);
+  return { status: "ok", request, outcome: request.outcome };
+};
+
+// A retry re-uses the failed record, so its payload has to describe that book.
+// Records that never reached Readarr have no bookId and are matched by the book.
+const isRequestedBook = (record: RequestRecord, payload: RequestPayload): boolean => {
+  if (record.bookId) {
+    return payload.existingId === record.bookId;
+  }
+  const keys = requestMatchKeys(record);
+  return Boolean(
+    payload.book && pickMatchKeys(payload.book).register.some((key) => keys.includes(key))
+  );
+};
+
+type LinkedRequestResult = {
+  instance: string;
+  status: "ok" | "pending" | "failed";
+  request?: RequestRecord;
+  outcome?: RequestOutcome;
+  error?: string;
+};
+
+// Requests one book on several instances at once. The records share a groupId;
+// sending that groupId back with only the failed instances re-submits their
+// existing records instead of adding new ones.
+app.post("/api/request/both", async (req, res) => {
+  const item = req.body?.item;
+  const entries: unknown[] = Array.isArray(req.body?.instances) ? req.body.instances : [];
+  if (!entries.length) {
+    return res.status(400).json({ error: "Choose one or more Readarr instances." });
+  }
+
+  const settings = requireSettings(res);
+  if (!settings) {
+    return undefined;
+  }
+
+  const targets = entries.map((entry) => {
+    const input = (entry || {}) as Record<string, unknown>;
+    const existingId = readId(input.existingId);
+    return {
+      instance: findInstance(settings, String(input.instanceId)),
+      payload: {
+        book: input.book as RequestPayload["book"],
+        existingId
+      }
+    };
+  });
+  if (
+    targets.some(
+      (target) =>
+        !target.instance || (!target.payload.book && !target.payload.existingId)
+    )
+  ) {
+    return res
+      .status(400)
+      .json({ error: "Each instance needs a known id and a book payload." });
+  }
+  const ids = targets.map((target) => target.instance!.id);
+  if (new Set(ids).size !== ids.length) {
+    return res.status(400).json({ error: "Each instance can only be requested once." });
+  }
+
+  const groupId = readText(req.body?.groupId);
+  if (groupId) {
+    const group = listRequests(
+      (record) => record.groupId === groupId && record.userId === req.user!.id
+    );
+    if (!group.length) {
+      return res.status(404).json({ error: "Request group not found." });
+    }
+    const retries = targets.map((target) => ({
+      ...target,
+      record: group.filter((record) => record.instance === target.instance!.id).pop()
+    }));
+    const blocked = retries.filter((target) => target.record?.status !== "failed");
+    if (blocked.length) {
+      return res.status(409).json({
+        error: `Only failed requests can be retried (${blocked
+          .map((target) => target.instance!.label)
+          .join(", ")}).`
+      });
+    }
+    const mismatched = retries.filter(
+      (target) => !isRequestedBook(target.record!, target.payload)
+    );
+    if (mismatched.length) {
+      return res.status(400).json({
+        error: `A retry must be for the book of the failed request (${mismatched
+          .map((target) => target.instance!.label)
+          .join(", ")}).`
+      });
+    }
+
+    const results = await Promise.all(
+      retries.map(async ({ instance, payload, record }): Promise<LinkedRequestResult> => {
+        try {
+          const request = await submitToReadarr(record!, payload);
+          return {
+            instance: instance!.id,
+            status: "ok",
+            request,
+            outcome: request.outcome
+          };
+        } catch (error) {
+          return {
+            instance: instance!.id,
+            status: "failed",
+            error: describeError(error).message
+          };
+        }
+      })
+    );
+    return res.json({ groupId, results });
+  }
+
+  const linked = crypto.randomUUID();
+  const requestItem: RequestItem = {
+    groupId: linked,
+    itemKey: readText(item?.key),
+    title: readText(item?.title),
+    author: readText(item?.author),
+    isbn13: readText(item?.isbn13),
+    foreignBookId: readText(item?.foreignBookId),
+    goodreadsId: readText(item?.goodreadsId)
+  };
+
+  const results = await Promise.all(
+    targets.map(async ({ instance, payload }): Promise<LinkedRequestResult> => {
+      try {
+        const result = await placeRequest(req, settings, instance!, payload, requestItem);
+        return { instance: instance!.id, ...result };
+      } catch (error) {
+        return {
+          instance: instance!.id,
+          status: "failed",
+          error: describeError(error).message
+        };
+      }
+    })
+  );
+  return res.json({ groupId: linked, results });
+});
+
+app.post("/api/request/:instanceId", async (req, res, next) => {
   const book = req.body?.book;
+  const item = req.body?.item;
   const existingId = Number(req.body?.existingId);
   if (!book && !(Number.isFinite(existingId) && existingId > 0)) {
     return res.status(400).json({ error: "Missing book payload." });
@@ -194,18 +998,715 @@ app.post("/api/request/audiobook", async (req, res, next) => {
     return undefined;
   }
 
+  const instance = resolveRequestInstance(settings, req.params.instanceId);
+  if (!instance) {
+    return res.status(404).json({ error: "Unknown Readarr instance." });
+  }
+
+  const editionId = readText(req.body?.editionId);
+  if (editionId && book && !existingId && !hasEdition(book, editionId)) {
+    return res
+      .status(400)
+      .json({ error: "The chosen edition is not available for this book." });
+  }
+
+  const overrides = readOverrides(req.body?.overrides);
+  if (overrides) {
+    const allowed = allowedOverrides(req, settings);
+    const denied = overrideFields.find(
+      (field) => overrides[field] != null && !allowed.includes(field)
+    );
+    if (denied) {
+      return res
+        .status(403)
+        .json({ error: `You are not allowed to choose ${overrideLabels[denied]}.` });
+    }
+  }
+
+  const payload: RequestPayload = {
+    book,
+    existingId:
+      Number.isFinite(existingId) && existingId > 0 ? existingId : undefined,
+    editionId
+  };
+  if (payload.existingId && overrides?.rootFolderPath) {
+    return res.status(400).json({ error: existingRootFolderMessage });
+  }
+
   try {
-    await requestBook(
-      settings.audio,
-      book,
-      Number.isFinite(existingId) && existingId > 0 ? existingId : undefined
+    if (overrides) {
+      const invalid = findInvalidOverride(overrides, await fetchProfiles(instance));
+      if (invalid) {
+        return res.status(400).json({ error: invalid });
+      }
+    }
+
+    const result = await placeRequest(
+      req,
+      settings,
+      instance,
+      payload,
+      {
+        itemKey: readText(item?.key),
+        title: readText(item?.title),
+        author: readText(item?.author),
+        isbn13: readText(item?.isbn13),
+        foreignBookId: readText(item?.foreignBookId),
+        goodreadsId: readText(item?.goodreadsId)
+      },
+      overrides
     );
+    return res.json(result);
+  } catch (error) {
+    return next(error);
+  }
+});
+
+type SeriesOutcome = {
+  key: string;
+  title: string;
+  position?: string;
+  instance: string;
+  status: "requested" | "pending" | "skipped" | "unavailable" | "failed";
+  error?: string;
+  request?: RequestRecord;
+};
+
+app.post("/api/books/:key/series/request", async (req, res, next) => {
+  const settings = requireSettings(res);
+  if (!settings) {
+    return undefined;
+  }
+
+  const ids: unknown[] = Array.isArray(req.body?.instances) ? req.body.instances : [];
+  const targets = ids.map((id) => findInstance(settings, String(id)));
+  if (!targets.length || targets.some((instance) => !instance)) {
+    return res.status(400).json({ error: "Choose one or more Readarr instances." });
+  }
+
+  try {
+    const errors: Record<string, string> = {};
+    const series = await loadSeries(
+      settings,
+      req.params.key,
+      readText(req.body?.series),
+      errors
+    );
+    if (!series) {
+      return res.status(404).json({ error: "This book is not part of a known series." });
+    }
+
+    const outcomes: SeriesOutcome[] = [];
+    for (const entry of series.entries) {
+      for (const instance of targets as InstanceSettings[]) {
+        const status = entry.instances[instance.id];
+        const outcome = {
+          key: entry.key,
+          title: entry.title,
+          position: entry.position,
+          instance: instance.id
+        };
+        if (errors[instance.id] || status?.offline) {
+          outcomes.push({
+            ...outcome,
+            status: "failed",
+            error: errors[instance.id] || "Instance offline."
+          });
+          continue;
+        }
+        if (status?.alreadyAdded) {
+          outcomes.push({ ...outcome, status: "skipped" });
+          continue;
+        }
+        if (!status?.available || (!status.lookup && !status.existingId)) {
+          outcomes.push({ ...outcome, status: "unavailable" });
+          continue;
+        }
+
+        try {
+          const result = await placeRequest(
+            req,
+            settings,
+            instance,
+            { book: status.lookup, existingId: status.existingId },
+            {
+              itemKey: entry.key,
+              title: entry.title,
+              author: entry.author,
+              isbn13: entry.isbn13,
+              foreignBookId: entry.foreignBookId,
+              goodreadsId: entry.goodreadsId
+            }
+          );
+          outcomes.push({
+            ...outcome,
+            status: result.status === "pending" ? "pending" : "requested",
+            request: result.request
+          });
+        } catch (error) {
+          outcomes.push({
+            ...outcome,
+            status: "failed",
+            error: describeError(error).message
+          });
+        }
+      }
+    }
+
+    return res.json({ title: series.title, outcomes });
+  } catch (error) {
+    return next(error);
+  }
+});
+
+app.post(
+  "/api/imports",
+  express.text({ type: ["text/csv", "text/plain"], limit: "10mb" }),
+  (req, res, next) => {
+    if (typeof req.body !== "string" || !req.body.trim()) {
+      return res
+        .status(400)
+        .json({ error: "Upload a Goodreads or StoryGraph CSV export." });
+    }
+
+    const settings = requireSettings(res);
+    if (!settings) {
+      return undefined;
+    }
+
+    try {
+      const job = startImportJob(
+        req.user!,
+        readText(req.query.name),
+        parseExport(req.body),
+        settings.instances.map((instance) => instance.id),
+        async (row, instanceId) => {
+          const instance = findInstance(settings, instanceId)!;
+          try {
+            return await withInstanceHealth(instance.id, async () =>
+              matchImportRow(instance, await getLibrary(instance), row)
+            );
+          } catch (error) {
+            return { status: "error", error: describeError(error).message };
+          }
+        }
+      );
+      return res.status(202).json({ job });
+    } catch (error) {
+      return next(error);
+    }
+  }
+);
+
+const readImportJob = (req: express.Request, res: express.Response) => {
+  const job = getImportJob(req.params.id);
+  if (!job || (job.userId !== req.user!.id && !isAdmin(req))) {
+    res.status(404).json({ error: "Import not found." });
+    return null;
+  }
+  return job;
+};
+
+app.get("/api/imports/:id", (req, res) => {
+  const job = readImportJob(req, res);
+  return job ? res.json({ job }) : undefined;
+});
+
+app.post("/api/imports/:id/request", (req, res) => {
+  const job = readImportJob(req, res);
+  if (!job) {
+    return undefined;
+  }
+  if (job.status === "matching" || job.status === "requesting") {
+    return res.status(409).json({ error: "This import is still running." });
+  }
+
+  const settings = requireSettings(res);
+  if (!settings) {
+    return undefined;
+  }
+
+  const ids: unknown[] = Array.isArray(req.body?.instances) ? req.body.instances : [];
+  const targets = ids.map((id) => findInstance(settings, String(id)));
+  if (!targets.length || targets.some((instance) => !instance)) {
+    return res.status(400).json({ error: "Choose one or more Readarr instances." });
+  }
+
+  const rows: unknown[] = Array.isArray(req.body?.rows) ? req.body.rows : [];
+  const selections = rows
+    .map((entry): ImportSelection | null => {
+      const input = (entry || {}) as { row?: unknown; choices?: unknown };
+      const row = readId(input.row);
+      if (!row) {
+        return null;
+      }
+      const choices = Object.entries(
+        input.choices && typeof input.choices === "object" ? input.choices : {}
+      ).filter(([, choice]) => Number.isInteger(choice) && Number(choice) >= 0);
+      return { row, choices: Object.fromEntries(choices) };
+    })
+    .filter((selection): selection is ImportSelection => Boolean(selection));
+  if (!selections.length) {
+    return res.status(400).json({ error: "Choose one or more books to request." });
+  }
+
+  return res.status(202).json({
+    job: startImportRequests(
+      job,
+      selections,
+      (targets as InstanceSettings[]).map((instance) => instance.id),
+      async (row, instanceId, payload, itemKey) => {
+        try {
+          const result = await placeRequest(
+            req,
+            settings,
+            findInstance(settings, instanceId)!,
+            payload,
+            {
+              itemKey,
+              title: row.title,
+              author: row.author,
+              isbn13: row.isbn13,
+              goodreadsId: row.goodreadsId
+            }
+          );
+          return {
+            status: result.status === "pending" ? "pending" : "requested",
+            requestId: result.request.id
+          };
+        } catch (error) {
+          return { status: "failed", error: describeError(error).message };
+        }
+      }
+    )
+  });
+});
+
+app.post("/api/follows/:instanceId", async (req, res, next) => {
+  const author = req.body?.author as ReadarrAuthor | undefined;
+  const item = req.body?.item;
+  const existingId = readId(req.body?.existingId);
+  const authorKey = readText(item?.key);
+  const authorName = readText(item?.name);
+  if ((!author && !existingId) || !authorKey || !authorName) {
+    return res.status(400).json({ error: "Missing author payload." });
+  }
+
+  const monitor = readText(req.body?.monitor) as FollowMonitor | undefined;
+  if (!monitor || !followMonitors.includes(monitor)) {
+    return res.status(400).json({
+      error: `Monitor must be one of: ${followMonitors.join(", ")}.`
+    });
+  }
+
+  const settings = requireSettings(res);
+  if (!settings) {
+    return undefined;
+  }
+
+  const instance = findInstance(settings, req.params.instanceId);
+  if (!instance) {
+    return res.status(404).json({ error: "Unknown Readarr instance." });
+  }
+
+  const user = req.user!;
+  if (settings.requireApproval && !isAdmin(req) && !user.autoApprove) {
+    return res
+      .status(403)
+      .json({ error: "Following authors is limited to approved requesters." });
+  }
+
+  try {
+    const authorId = await followAuthor(instance, author, existingId, monitor);
+    invalidateCachedLookups(instance.id, [authorKey]);
+    if (existingId && (monitor === "missing" || monitor === "all")) {
+      await enqueueJob(
+        {
+          kind: "command",
+          instance: instance.id,
+          label: `Search for ${authorName}`,
+          payload: { name: "AuthorSearch", authorId: existingId }
+        },
+        true
+      );
+    }
+    const follow = await saveFollow({
+      userId: user.id,
+      username: user.username,
+      instance: instance.id,
+      authorKey,
+      authorName,
+      foreignAuthorId: readText(item?.foreignAuthorId),
+      authorId,
+      monitor
+    });
+    logger.info(
+      { user: user.username, instance: instance.id, author: authorName, monitor },
+      "author_followed"
+    );
+    return res.json({ follow });
+  } catch (error) {
+    return next(error);
+  }
+});
+
+app.get("/api/follows", (req, res) => {
+  const scope = req.query.scope === "all" ? "all" : "mine";
+  if (scope === "all" && !isAdmin(req)) {
+    return res.status(403).json({ error: "Admin access required." });
+  }
+  return res.json({
+    follows: listFollows(scope === "mine" ? req.user!.id : undefined)
+  });
+});
+
+app.get("/api/instances/:instanceId/options", async (req, res, next) => {
+  const settings = requireSettings(res);
+  if (!settings) {
+    return undefined;
+  }
+
+  const instance = findInstance(settings, req.params.instanceId);
+  if (!instance) {
+    return res.status(404).json({ error: "Unknown Readarr instance." });
+  }
+
+  const allowed = allowedOverrides(req, settings);
+  if (!allowed.length) {
+    return res.json({ allowed });
+  }
+
+  try {
+    const profiles = await fetchProfiles(instance);
+    return res.json({
+      allowed,
+      rootFolders: allowed.includes("rootFolderPath")
+        ? profiles.rootFolders.map(({ path, name }) => ({ path, name }))
+        : undefined,
+      qualityProfiles: allowed.includes("qualityProfileId")
+        ? profiles.qualityProfiles
+        : undefined,
+      metadataProfiles: allowed.includes("metadataProfileId")
+        ? profiles.metadataProfiles
+        : undefined,
+      tags: allowed.includes("tags") ? profiles.tags : undefined
+    });
+  } catch (error) {
+    return next(error);
+  }
+});
+
+app.get("/api/covers/:instanceId/:signature", async (req, res, next) => {
+  const settings = requireSettings(res);
+  if (!settings) {
+    return undefined;
+  }
+
+  const instance = findInstance(settings, req.params.instanceId);
+  if (!instance) {
+    return res.status(404).json({ error: "Unknown Readarr instance." });
+  }
+
+  try {
+    const file = await loadCover(
+      instance,
+      req.params.signature,
+      readText(req.query.path) || ""
+    );
+    res.set("Cache-Control", "private, max-age=86400");
+    return res.sendFile(file);
+  } catch (error) {
+    return next(error);
+  }
+});
+
+const requestStatuses: RequestStatus[] = [
+  "pending",
+  "rejected",
+  "queued",
+  "submitted",
+  "failed",
+  "cancelled"
+];
+
+app.post("/api/requests/refresh", requireAdmin, async (req, res, next) => {
+  try {
+    await refreshTracking();
     return res.json({ status: "ok" });
   } catch (error) {
     return next(error);
   }
 });
 
+const jobStatuses: JobStatus[] = [
+  "queued",
+  "running",
+  "failed",
+  "succeeded",
+  "cancelled"
+];
+
+app.get("/api/jobs", requireAdmin, (req, res) => {
+  const status = String(req.query.status || "") as JobStatus;
+  return res.json({
+    jobs: listJobs(jobStatuses.includes(status) ? status : undefined),
+    counts: countJobs()
+  });
+});
+
+app.post("/api/jobs/:id/retry", requireAdmin, async (req, res, next) => {
+  try {
+    const job = await retryJob(req.params.id);
+    if (job.kind === "request" && job.requestId) {
+      await updateRequest(job.requestId, { status: "queued", error: undefined });
+    }
+    return res.json({ job });
+  } catch (error) {
+    return next(error);
+  }
+});
+
+app.post("/api/jobs/:id/cancel", requireAdmin, async (req, res, next) => {
+  try {
+    return res.json({ job: await cancelJob(req.params.id, req.user!.username) });
+  } catch (error) {
+    return next(error);
+  }
+});
+
+app.get("/api/library", requireAdmin, (req, res) => {
+  const settings = requireSettings(res);
+  if (!settings) {
+    return undefined;
+  }
+  return res.json({ instances: getLibraryStatus(settings.instances) });
+});
+
+app.post("/api/library/refresh", requireAdmin, async (req, res, next) => {
+  const settings = requireSettings(res);
+  if (!settings) {
+    return undefined;
+  }
+
+  try {
+    await refreshLibraries();
+    return res.json({ instances: getLibraryStatus(settings.instances) });
+  } catch (error) {
+    return next(error);
+  }
+});
+
+app.get("/api/requests", (req, res) => {
+  const scope = req.query.scope === "all" ? "all" : "mine";
+  if (scope === "all" && !isAdmin(req)) {
+    return res.status(403).json({ error: "Admin access required." });
+  }
+
+  const status = String(req.query.status || "") as RequestStatus;
+  const page = Math.max(1, Math.floor(Number(req.query.page) || 1));
+  const pageSize = Math.min(
+    100,
+    Math.max(1, Math.floor(Number(req.query.pageSize) || 20))
+  );
+
+  const ids = readText(req.query.ids)?.split(",").filter(Boolean);
+
+  return res.json(
+    queryRequests({
+      ids,
+      userId: scope === "mine" ? req.user!.id : undefined,
+      status: requestStatuses.includes(status) ? status : undefined,
+      instance: readText(req.query.instance),
+      text: readText(req.query.q),
+      page,
+      pageSize
+    })
+  );
+});
+
+app.post("/api/requests/:id/approve", requireAdmin, async (req, res, next) => {
+  const record = getRequest(req.params.id);
+  if (!record) {
+    return res.status(404).json({ error: "Request not found." });
+  }
+  if (record.status !== "pending" || !record.payload) {
+    return res.status(409).json({ error: "Only pending requests can be approved." });
+  }
+
+  if (!requireSettings(res)) {
+    return undefined;
+  }
+
+  try {
+    // Leave pending and hand the record to the job queue before awaiting
+    // anything, so a second approval, a rejection or a cancel sees it taken.
+    const reviewed = updateRequest(record.id, {
+      status: "queued",
+      reviewedBy: req.user!.username,
+      reviewedAt: new Date().toISOString()
+    });
+    const [request] = await Promise.all([
+      submitToReadarr(record, record.payload),
+      reviewed
+    ]);
+    notify("request.approved", request);
+    return res.json({ status: "ok", request, outcome: request.outcome });
+  } catch (error) {
+    return next(error);
+  }
+});
+
+app.post("/api/requests/:id/reject", requireAdmin, async (req, res, next) => {
+  const record = getRequest(req.params.id);
+  if (!record) {
+    return res.status(404).json({ error: "Request not found." });
+  }
+  if (record.status !== "pending") {
+    return res.status(409).json({ error: "Only pending requests can be rejected." });
+  }
+
+  try {
+    const request = await updateRequest(record.id, {
+      status: "rejected",
+      rejectionReason: readText(req.body?.reason) || "No reason given.",
+      reviewedBy: req.user!.username,
+      reviewedAt: new Date().toISOString(),
+      payload: undefined
+    });
+    if (request) {
+      notify("request.rejected", request);
+    }
+    return res.json({ status: "ok", request });
+  } catch (error) {
+    return next(error);
+  }
+});
+
+const canCancel = (record: RequestRecord, admin: boolean): boolean => {
+  if (!["pending", "queued", "submitted"].includes(record.status)) {
+    return false;
+  }
+  return (
+    admin ||
+    record.status !== "submitted" ||
+    (record.stage !== "imported" && record.stage !== "failed")
+  );
+};
+
+// Another open request for the same book still wants it, so cancelling this one
+// must leave the book, its monitoring and its downloads alone. Waiting requests
+// have no bookId yet and are matched by the book they were made for.
+const isBookShared = (record: RequestRecord): boolean => {
+  const registered = requestMatchKeys(record, "register");
+  return listRequests(
+    (other) =>
+      other.id !== record.id &&
+      other.instance === record.instance &&
+      ["pending", "queued", "submitted"].includes(other.status) &&
+      (other.bookId != null
+        ? other.bookId === record.bookId
+        : other.payload?.existingId === record.bookId ||
+          requestMatchKeys(other).some((key) => registered.includes(key)))
+  ).length > 0;
+};
+
+app.post("/api/requests/:id/cancel", async (req, res, next) => {
+  const record = getRequest(req.params.id);
+  const admin = isAdmin(req);
+  if (!record || (!admin && record.userId !== req.user!.id)) {
+    return res.status(404).json({ error: "Request not found." });
+  }
+  if (!canCancel(record, admin)) {
+    return res
+      .status(409)
+      .json({ error: "Only pending or in-progress requests can be cancelled." });
+  }
+
+  try {
+    const cancelledJobs = await cancelRequestJobs(record.id);
+    let withdrawal: RequestWithdrawal | undefined;
+    if (record.status === "submitted" && record.bookId && !isBookShared(record)) {
+      const instance = findSettingsInstance(record.instance);
+      try {
+        withdrawal = await withdrawBook(instance, record.bookId, record.outcome);
+      } catch (error) {
+        await restoreJobs(cancelledJobs);
+        throw error;
+      }
+      invalidateCachedLookups(instance.id, requestMatchKeys(record));
+      void refreshLibraryBooks(instance, [record.bookId]);
+    }
+    const request = await updateRequest(record.id, {
+      status: "cancelled",
+      payload: undefined,
+      cancelledBy: req.user!.username,
+      cancelledAt: new Date().toISOString()
+    });
+    return res.json({ status: "ok", request, withdrawal });
+  } catch (error) {
+    return next(error);
+  }
+});
+
+const readWebhookSecret = (req: express.Request): string => {
+  const header = req.header("authorization") || "";
+  if (header.startsWith("Basic ")) {
+    const decoded = Buffer.from(header.slice(6), "base64").toString("utf8");
+    return decoded.split(":").slice(1).join(":");
+  }
+  return (
+    req.header("x-webhook-secret") ||
+    (typeof req.query.secret === "string" ? req.query.secret : "")
+  );
+};
+
+const secretsMatch = (provided: string, expected: string): boolean => {
+  const a = Buffer.from(provided);
+  const b = Buffer.from(expected);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+};
+
+app.post("/api/webhooks/readarr/:instance", async (req, res, next) => {
+  const settings = requireSettings(res);
+  if (!settings) {
+    return undefined;
+  }
+
+  const instance = findInstance(settings, req.params.instance);
+  if (!instance) {
+    return res.status(404).json({ error: "Unknown instance." });
+  }
+
+  const expected = instance.webhookSecret;
+  if (!expected || !secretsMatch(readWebhookSecret(req), expected)) {
+    return res.status(401).json({ error: "Invalid webhook secret." });
+  }
+
+  try {
+    const event = parseReadarrWebhook(req.body);
+    const matched = await applyWebhookEvent(instance.id, event);
+    if (event.type !== "test") {
+      const bookIds = event.books
+        .map((book) => book.id)
+        .filter((id): id is number => id != null);
+      if (bookIds.length) {
+        void refreshLibraryBooks(instance, bookIds);
+      } else {
+        refreshLibrary(instance).catch((error) =>
+          logger.warn({ err: error, instance: instance.id }, "library_refresh_failed")
+        );
+      }
+    }
+    logger.info(
+      { instance: instance.id, eventType: event.eventType, matched },
+      "readarr_webhook_received"
+    );
+    return res.json({ status: "ok", matched });
+  } catch (error) {
+    return next(error);
+  }
+});
+
 if (fs.existsSync(clientDist)) {
   app.use(express.static(clientDist));
 
@@ -223,33 +1724,20 @@ app.use(
   ) => {
     logger.error({ err: error }, "request_failed");
 
-    let status = 500;
-    let message = "Unexpected error.";
-
-    if (error instanceof SettingsError) {
-      status = error.status;
-      message = error.message;
-    } else if (axios.isAxiosError(error)) {
-      status = error.response?.status || 502;
-      if (error.code === "ECONNREFUSED") {
-        message = "Unable to reach Readarr. Check the base URL and network.";
-      } else if (status === 401 || status === 403) {
-        message = "Readarr rejected the API key.";
-      } else {
-        const data = error.response?.data as
-          | { message?: string; error?: string }
-          | undefined;
-        message =
-          data?.message || data?.error || error.message || "Readarr error.";
-      }
-    } else if (error instanceof Error) {
-      message = error.message;
-    }
-
+    const { status, message } = describeError(error);
     res.status(status).json({ error: message });
   }
 );
 
-app.listen(config.port, () => {
-  logger.info({ port: config.port }, "server_listening");
-});
+ensureBootstrapAdmin()
+  .catch((error) => {
+    logger.error({ err: error }, "bootstrap_admin_failed");
+  })
+  .finally(() => {
+    app.listen(config.port, () => {
+      logger.info({ port: config.port }, "server_listening");
+    });
+    startRequestTracker();
+    startLibraryIndex();
+    startJobQueue();
+  });
@@ -0,0 +1,86 @@
+import axios from "axios";
+import { config } from "./config.js";
+import { logger } from "./logger.js";
+
+type Breaker = {
+  failures: number;
+  openUntil: number;
+  reason: string;
+};
+
+const failureThreshold = 2;
+const offlineStatuses = [502, 503, 504];
+const breakers = new Map<string, Breaker>();
+
+export class InstanceOfflineError extends Error {
+  status: number;
+
+  constructor(message: string) {
+    super(message);
+    this.status = 503;
+  }
+}
+
+export const isOfflineError = (error: unknown): boolean => {
+  if (error instanceof InstanceOfflineError) {
+    return true;
+  }
+  if (!axios.isAxiosError(error)) {
+    return false;
+  }
+  const status = error.response?.status;
+  return status == null || offlineStatuses.includes(status);
+};
+
+const describeFailure = (error: unknown): string => {
+  if (axios.isAxiosError(error)) {
+    if (error.response?.status) {
+      return `HTTP ${error.response.status}`;
+    }
+    return error.code || "no response";
+  }
+  return error instanceof Error ? error.message : "unknown error";
+};
+
+export const withInstanceHealth = async <T>(
+  instanceId: string,
+  task: () => Promise<T>
+): Promise<T> => {
+  const breaker = breakers.get(instanceId);
+  const now = Date.now();
+  if (breaker && breaker.openUntil > now) {
+    const seconds = Math.ceil((breaker.openUntil - now) / 1000);
+    throw new InstanceOfflineError(
+      `Readarr is offline (${breaker.reason}); retrying in ${seconds}s.`
+    );
+  }
+
+  try {
+    const result = await task();
+    if (breaker) {
+      breakers.delete(instanceId);
+      logger.info({ instance: instanceId }, "instance_recovered");
+    }
+    return result;
+  } catch (error) {
+    if (!isOfflineError(error) || error instanceof InstanceOfflineError) {
+      throw error;
+    }
+    const failures = (breaker?.failures ?? 0) + 1;
+    const reason = describeFailure(error);
+    const open = failures >= failureThreshold;
+    breakers.set(instanceId, {
+      failures,
+      reason,
+      openUntil: open ? now + config.instanceCooldownSeconds * 1000 : 0
+    });
+    if (open) {
+      logger.warn({ instance: instanceId, failures, reason }, "instance_circuit_open");
+    }
+    throw new InstanceOfflineError(`Readarr is offline (${reason}).`);
+  }
+};
+
+export const resetInstanceHealth = (): void => {
+  breakers.clear();
+};
@@ -0,0 +1,353 @@
+import axios from "axios";
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { config } from "./config.js";
+import { InstanceOfflineError } from "./instanceHealth.js";
+import { logger } from "./logger.js";
+
+export type JobKind = "request" | "command";
+
+export type JobStatus = "queued" | "running" | "failed" | "succeeded" | "cancelled";
+
+export type QueueJob = {
+  id: string;
+  kind: JobKind;
+  instance: string;
+  label: string;
+  requestId?: string;
+  payload: Record<string, unknown>;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  nextRunAt: string;
+  lastError?: string;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt?: string;
+};
+
+export type JobInput = Pick<
+  QueueJob,
+  "kind" | "instance" | "label" | "requestId" | "payload"
+>;
+
+export type JobHandler = {
+  run: (job: QueueJob) => Promise<void>;
+  onFailed?: (job: QueueJob, message: string) => Promise<void>;
+  onCancelled?: (job: QueueJob, cancelledBy: string) => Promise<void>;
+};
+
+export class JobError extends Error {
+  status: number;
+
+  constructor(message: string, status = 409) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const baseDir = process.env.INIT_CWD || process.cwd();
+const jobsPath = path.resolve(baseDir, "data", "jobs.json");
+const retentionMs = 7 * 24 * 60 * 60 * 1000;
+const maxRetryDelayMs = 6 * 60 * 60 * 1000;
+const pollMs = 5000;
+const handlers = new Map<JobKind, JobHandler>();
+const running = new Set<string>();
+let cached: QueueJob[] | null = null;
+let writeChain: Promise<void> = Promise.resolve();
+let timer: NodeJS.Timeout | null = null;
+let draining = false;
+
+const loadFromFile = (): QueueJob[] => {
+  if (!fs.existsSync(jobsPath)) {
+    return [];
+  }
+
+  try {
+    const raw = fs.readFileSync(jobsPath, "utf8");
+    const parsed = JSON.parse(raw) as { jobs?: QueueJob[] };
+    return parsed.jobs || [];
+  } catch (error) {
+    logger.error({ err: error }, "jobs_load_failed");
+    return [];
+  }
+};
+
+const getRecords = (): QueueJob[] => {
+  if (!cached) {
+    cached = loadFromFile();
+  }
+  return cached;
+};
+
+const persist = (): Promise<void> => {
+  const write = async () => {
+    const payload = JSON.stringify({ jobs: getRecords() }, null, 2);
+    await fs.promises.mkdir(path.dirname(jobsPath), { recursive: true });
+    await fs.promises.writeFile(`${jobsPath}.tmp`, payload, "utf8");
+    await fs.promises.rename(`${jobsPath}.tmp`, jobsPath);
+  };
+  writeChain = writeChain.then(write, write);
+  return writeChain;
+};
+
+const pruneJobs = (): void => {
+  const cutoff = Date.now() - retentionMs;
+  cached = getRecords().filter(
+    (job) =>
+      !(job.status === "succeeded" || job.status === "cancelled") ||
+      Date.parse(job.updatedAt) >= cutoff
+  );
+};
+
+const touch = (job: QueueJob): void => {
+  job.updatedAt = new Date().toISOString();
+};
+
+// Readarr being down or restarting is worth retrying; a rejected payload is not.
+const isRetryable = (error: unknown): boolean => {
+  if (error instanceof InstanceOfflineError) {
+    return true;
+  }
+  if (!axios.isAxiosError(error)) {
+    return false;
+  }
+  const status = error.response?.status;
+  return status == null || status >= 500 || status === 408 || status === 429;
+};
+
+const describeFailure = (error: unknown): string => {
+  if (axios.isAxiosError(error)) {
+    const data = error.response?.data as { message?: string; error?: string } | undefined;
+    return data?.message || data?.error || error.message;
+  }
+  return error instanceof Error ? error.message : "Unexpected error.";
+};
+
+const retryDelayMs = (attempts: number): number =>
+  Math.min(config.jobRetryBaseSeconds * 1000 * 2 ** (attempts - 1), maxRetryDelayMs);
+
+const runJob = async (job: QueueJob): Promise<unknown> => {
+  const handler = handlers.get(job.kind);
+  running.add(job.id);
+  job.status = "running";
+  job.attempts += 1;
+  touch(job);
+  await persist();
+
+  try {
+    if (!handler) {
+      throw new Error(`No handler is registered for ${job.kind} jobs.`);
+    }
+    await handler.run(job);
+    job.status = "succeeded";
+    job.lastError = undefined;
+    job.finishedAt = new Date().toISOString();
+    touch(job);
+    await persist();
+    return undefined;
+  } catch (error) {
+    const message = describeFailure(error);
+    job.lastError = message;
+    if (isRetryable(error) && job.attempts < job.maxAttempts) {
+      job.status = "queued";
+      job.nextRunAt = new Date(Date.now() + retryDelayMs(job.attempts)).toISOString();
+      logger.warn(
+        { err: error, job: job.id, kind: job.kind, attempts: job.attempts },
+        "job_retry_scheduled"
+      );
+    } else {
+      job.status = "failed";
+      job.finishedAt = new Date().toISOString();
+      logger.error({ err: error, job: job.id, kind: job.kind }, "job_failed");
+      await handler?.onFailed?.(job, message).catch((hookError) =>
+        logger.error({ err: hookError, job: job.id }, "job_failure_hook_failed")
+      );
+    }
+    touch(job);
+    await persist();
+    return error;
+  } finally {
+    running.delete(job.id);
+  }
+};
+
+const drainQueue = async (): Promise<void> => {
+  if (draining) {
+    return;
+  }
+  draining = true;
+  try {
+    for (;;) {
+      const now = Date.now();
+      const due = getRecords().find(
+        (job) =>
+          job.status === "queued" &&
+          !running.has(job.id) &&
+          Date.parse(job.nextRunAt) <= now
+      );
+      if (!due) {
+        break;
+      }
+      await runJob(due);
+    }
+  } finally {
+    draining = false;
+  }
+};
+
+export const registerJobHandler = (kind: JobKind, handler: JobHandler): void => {
+  handlers.set(kind, handler);
+};
+
+// With runNow the first attempt happens before returning, so callers can
+// answer synchronously when Readarr is up and fall back to retries otherwise.
+export const enqueueJob = async (
+  input: JobInput,
+  runNow = false
+): Promise<{ job: QueueJob; error?: unknown }> => {
+  const now = new Date().toISOString();
+  const job: QueueJob = {
+    id: crypto.randomUUID(),
+    ...input,
+    status: "queued",
+    attempts: 0,
+    maxAttempts: Math.max(1, config.jobMaxAttempts),
+    nextRunAt: now,
+    createdAt: now,
+    updatedAt: now
+  };
+  pruneJobs();
+  getRecords().push(job);
+  // Claim the job before the first await so a drain cannot run it as well.
+  if (runNow) {
+    running.add(job.id);
+  }
+  try {
+    await persist();
+  } catch (error) {
+    running.delete(job.id);
+    throw error;
+  }
+
+  if (!runNow) {
+    void drainQueue();
+    return { job };
+  }
+  const error = await runJob(job);
+  return { job, error };
+};
+
+export const listJobs = (status?: JobStatus): QueueJob[] =>
+  getRecords()
+    .filter((job) => !status || job.status === status)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .slice(0, 200);
+
+export const countJobs = (): Record<JobStatus, number> => {
+  const counts: Record<JobStatus, number> = {
+    queued: 0,
+    running: 0,
+    failed: 0,
+    succeeded: 0,
+    cancelled: 0
+  };
+  for (const job of getRecords()) {
+    counts[job.status] += 1;
+  }
+  return counts;
+};
+
+const findJob = (id: string): QueueJob => {
+  const job = getRecords().find((entry) => entry.id === id);
+  if (!job) {
+    throw new JobError("Job not found.", 404);
+  }
+  return job;
+};
+
+export const retryJob = async (id: string): Promise<QueueJob> => {
+  const job = findJob(id);
+  if (job.status !== "failed" && job.status !== "cancelled") {
+    throw new JobError("Only failed or cancelled jobs can be retried.");
+  }
+  job.status = "queued";
+  job.attempts = 0;
+  job.nextRunAt = new Date().toISOString();
+  job.finishedAt = undefined;
+  touch(job);
+  await persist();
+  void drainQueue();
+  return job;
+};
+
+export const cancelJob = async (id: string, cancelledBy: string): Promise<QueueJob> => {
+  const job = findJob(id);
+  if (job.status !== "queued") {
+    throw new JobError("Only queued jobs can be cancelled.");
+  }
+  if (running.has(job.id)) {
+    throw new JobError("This job is being sent to Readarr. Try again in a moment.");
+  }
+  job.status = "cancelled";
+  job.finishedAt = new Date().toISOString();
+  touch(job);
+  await persist();
+  await handlers
+    .get(job.kind)
+    ?.onCancelled?.(job, cancelledBy)
+    .catch((error) => logger.error({ err: error, job: job.id }, "job_cancel_hook_failed"));
+  return job;
+};
+
+// Used when the request itself is withdrawn, so the failure hooks stay quiet.
+export const cancelRequestJobs = async (requestId: string): Promise<QueueJob[]> => {
+  const jobs = getRecords().filter((job) => job.requestId === requestId);
+  if (jobs.some((job) => job.status === "running" || running.has(job.id))) {
+    throw new JobError("This request is being sent to Readarr. Try again in a moment.");
+  }
+  const queued = jobs.filter((job) => job.status === "queued");
+  for (const job of queued) {
+    job.status = "cancelled";
+    job.finishedAt = new Date().toISOString();
+    touch(job);
+  }
+  if (queued.length) {
+    await persist();
+  }
+  return queued;
+};
+
+// Puts jobs taken by cancelRequestJobs back when the withdrawal did not go through.
+export const restoreJobs = async (jobs: QueueJob[]): Promise<void> => {
+  const cancelled = jobs.filter((job) => job.status === "cancelled");
+  for (const job of cancelled) {
+    job.status = "queued";
+    job.finishedAt = undefined;
+    touch(job);
+  }
+  if (cancelled.length) {
+    await persist();
+  }
+};
+
+export const startJobQueue = (): void => {
+  if (timer) {
+    return;
+  }
+  const interrupted = getRecords().filter((job) => job.status === "running");
+  for (const job of interrupted) {
+    job.status = "queued";
+    job.nextRunAt = new Date().toISOString();
+    touch(job);
+  }
+  if (interrupted.length) {
+    void persist();
+  }
+  timer = setInterval(() => {
+    void drainQueue();
+  }, pollMs);
+  timer.unref();
+  void drainQueue();
+};
@@ -0,0 +1,154 @@
+import { config } from "./config.js";
+import { withInstanceHealth } from "./instanceHealth.js";
+import { logger } from "./logger.js";
+import type { Library } from "./readarrClient.js";
+import {
+  createLibrary,
+  fetchBook,
+  fetchLibraryBooks,
+  removeLibraryBook,
+  upsertLibraryBook
+} from "./readarrClient.js";
+import type { InstanceSettings } from "./settingsStore.js";
+import { getSettings } from "./settingsStore.js";
+
+type IndexEntry = {
+  source: string;
+  library: Library | null;
+  refreshedAt?: string;
+  updatedAt?: string;
+  error?: string;
+  pending: Promise<Library> | null;
+};
+
+export type LibraryStatus = {
+  instance: string;
+  label: string;
+  size: number;
+  refreshing: boolean;
+  refreshedAt?: string;
+  updatedAt?: string;
+  error?: string;
+};
+
+const entries = new Map<string, IndexEntry>();
+let timer: NodeJS.Timeout | null = null;
+
+const entryFor = (instance: InstanceSettings): IndexEntry => {
+  const source = `${instance.baseUrl}|${instance.apiKey}`;
+  const current = entries.get(instance.id);
+  if (current && current.source === source) {
+    return current;
+  }
+  const entry: IndexEntry = { source, library: null, pending: null };
+  entries.set(instance.id, entry);
+  return entry;
+};
+
+export const refreshLibrary = (instance: InstanceSettings): Promise<Library> => {
+  const entry = entryFor(instance);
+  if (entry.pending) {
+    return entry.pending;
+  }
+
+  entry.pending = withInstanceHealth(instance.id, () => fetchLibraryBooks(instance))
+    .then((books) => {
+      const library = createLibrary(books);
+      entry.library = library;
+      entry.refreshedAt = new Date().toISOString();
+      entry.error = undefined;
+      logger.info(
+        { instance: instance.id, size: library.books.size },
+        "library_refreshed"
+      );
+      return library;
+    })
+    .catch((error) => {
+      entry.error = error instanceof Error ? error.message : String(error);
+      throw error;
+    })
+    .finally(() => {
+      entry.pending = null;
+    });
+  return entry.pending;
+};
+
+export const getLibrary = (instance: InstanceSettings): Promise<Library> => {
+  const entry = entryFor(instance);
+  return entry.library ? Promise.resolve(entry.library) : refreshLibrary(instance);
+};
+
+export const refreshLibraryBooks = async (
+  instance: InstanceSettings,
+  bookIds: number[]
+): Promise<void> => {
+  const entry = entryFor(instance);
+  const library = entry.library;
+  if (!library) {
+    return;
+  }
+
+  try {
+    for (const bookId of new Set(bookIds)) {
+      const book = await fetchBook(instance, bookId);
+      if (book) {
+        upsertLibraryBook(library, book);
+      } else {
+        removeLibraryBook(library, bookId);
+      }
+    }
+    entry.updatedAt = new Date().toISOString();
+  } catch (error) {
+    logger.warn({ err: error, instance: instance.id }, "library_update_failed");
+  }
+};
+
+export const refreshLibraries = async (): Promise<void> => {
+  const settings = getSettings().settings;
+  if (!settings) {
+    return;
+  }
+
+  const ids = new Set(settings.instances.map((instance) => instance.id));
+  for (const id of entries.keys()) {
+    if (!ids.has(id)) {
+      entries.delete(id);
+    }
+  }
+
+  await Promise.all(
+    settings.instances.map((instance) =>
+      refreshLibrary(instance).catch((error) => {
+        logger.warn({ err: error, instance: instance.id }, "library_refresh_failed");
+      })
+    )
+  );
+};
+
+export const getLibraryStatus = (instances: InstanceSettings[]): LibraryStatus[] =>
+  instances.map((instance) => {
+    const entry = entryFor(instance);
+    return {
+      instance: instance.id,
+      label: instance.label,
+      size: entry.library?.books.size ?? 0,
+      refreshing: Boolean(entry.pending),
+      refreshedAt: entry.refreshedAt,
+      updatedAt: entry.updatedAt,
+      error: entry.error
+    };
+  });
+
+export const startLibraryIndex = (): void => {
+  if (timer) {
+    return;
+  }
+  void refreshLibraries();
+  if (config.libraryRefreshSeconds <= 0) {
+    return;
+  }
+  timer = setInterval(() => {
+    void refreshLibraries();
+  }, config.libraryRefreshSeconds * 1000);
+  timer.unref();
+};
@@ -0,0 +1,266 @@
+import axios from "axios";
+import nodemailer from "nodemailer";
+import { logger } from "./logger.js";
+import type { RequestRecord } from "./requestStore.js";
+import type {
+  NotificationChannel,
+  NotificationEvent
+} from "./settingsStore.js";
+import { findInstance, getSettings } from "./settingsStore.js";
+import type { PublicUser } from "./userStore.js";
+import { defaultNotificationEvents, listUsers } from "./userStore.js";
+
+type NotificationMessage = {
+  event: NotificationEvent | "test";
+  title: string;
+  body: string;
+  request?: RequestRecord;
+};
+
+export class NotificationError extends Error {
+  status: number;
+
+  constructor(message: string, status = 502) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_MS = 2000;
+
+const kindNames = {
+  ebook: "ebook",
+  audiobook: "audiobook"
+} as const;
+
+const adminEvents: NotificationEvent[] = ["request.created"];
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const formatName = (record: RequestRecord): string => {
+  const settings = getSettings().settings;
+  const instance = settings && findInstance(settings, record.instance);
+  if (!instance) {
+    return record.instance;
+  }
+  return instance.kind === "other" ? `${instance.label} copy` : kindNames[instance.kind];
+};
+
+const describe = (
+  event: NotificationEvent,
+  record: RequestRecord
+): NotificationMessage => {
+  const book = `"${record.title}" by ${record.author}`;
+  const format = formatName(record);
+
+  switch (event) {
+    case "request.created":
+      return {
+        event,
+        request: record,
+        title:
+          record.status === "pending"
+            ? "Request awaiting approval"
+            : "New book request",
+        body: `${record.username} requested the ${format} of ${book}.`
+      };
+    case "request.approved":
+      return {
+        event,
+        request: record,
+        title: "Request approved",
+        body: `The ${format} of ${book} was approved and sent to Readarr.`
+      };
+    case "request.rejected":
+      return {
+        event,
+        request: record,
+        title: "Request rejected",
+        body: `The ${format} of ${book} was rejected: ${
+          record.rejectionReason || "no reason given"
+        }.`
+      };
+    case "request.imported":
+      return {
+        event,
+        request: record,
+        title: "Your book is ready",
+        body: `The ${format} of ${book} has been imported and is ready.`
+      };
+    case "request.failed":
+      return {
+        event,
+        request: record,
+        title: "Request failed",
+        body: `The ${format} of ${book} could not be completed${
+          record.stageMessage || record.error
+            ? `: ${record.stageMessage || record.error}`
+            : "."
+        }`
+      };
+    default:
+      return { event, request: record, title: "Book request", body: book };
+  }
+};
+
+const postJson = async (url: string, payload: unknown): Promise<void> => {
+  await axios.post(url, payload, { timeout: 10000 });
+};
+
+const sendToChannel = async (
+  channel: NotificationChannel,
+  message: NotificationMessage,
+  recipients: string[]
+): Promise<void> => {
+  switch (channel.type) {
+    case "webhook":
+      await postJson(channel.url!, {
+        event: message.event,
+        title: message.title,
+        message: message.body,
+        request: message.request
+      });
+      return;
+    case "discord":
+      await postJson(channel.url!, {
+        username: "Book Requests",
+        content: `**${message.title}**\n${message.body}`,
+        text: `*${message.title}*\n${message.body}`
+      });
+      return;
+    case "apprise":
+      await postJson(channel.url!, {
+        title: message.title,
+        body: message.body,
+        type: message.event.endsWith("failed") ? "failure" : "info"
+      });
+      return;
+    case "email": {
+      if (!recipients.length) {
+        return;
+      }
+      const smtp = channel.smtp!;
+      const transport = nodemailer.createTransport({
+        host: smtp.host,
+        port: smtp.port,
+        secure: smtp.secure,
+        auth: smtp.username
+          ? { user: smtp.username, pass: smtp.password || "" }
+          : undefined
+      });
+      await transport.sendMail({
+        from: smtp.from,
+        bcc: recipients,
+        subject: message.title,
+        text: message.body
+      });
+      return;
+    }
+    default:
+      return;
+  }
+};
+
+const sendWithRetries = async (
+  channel: NotificationChannel,
+  message: NotificationMessage,
+  recipients: string[]
+): Promise<void> => {
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt += 1) {
+    try {
+      await sendToChannel(channel, message, recipients);
+      return;
+    } catch (error) {
+      logger.warn(
+        { err: error, channel: channel.label, event: message.event, attempt },
+        "notification_failed"
+      );
+      if (attempt === MAX_ATTEMPTS) {
+        throw error;
+      }
+      await sleep(RETRY_BASE_MS * 2 ** (attempt - 1));
+    }
+  }
+};
+
+const audienceFor = (
+  event: NotificationEvent,
+  record: RequestRecord
+): PublicUser[] => {
+  const users = listUsers();
+  const audience = adminEvents.includes(event)
+    ? users.filter((user) => user.role === "admin")
+    : users.filter((user) => user.id === record.userId);
+
+  return audience.filter((user) =>
+    (user.notifications?.events || defaultNotificationEvents(user.role)).includes(
+      event
+    )
+  );
+};
+
+const dispatch = async (
+  event: NotificationEvent,
+  record: RequestRecord
+): Promise<void> => {
+  const channels = (getSettings().settings?.notificationChannels || []).filter(
+    (channel) => channel.enabled && channel.events.includes(event)
+  );
+  if (!channels.length) {
+    return;
+  }
+
+  const audience = audienceFor(event, record);
+  if (!audience.length) {
+    return;
+  }
+
+  const message = describe(event, record);
+  const emails = audience
+    .map((user) => user.notifications?.email)
+    .filter((email): email is string => Boolean(email));
+
+  await Promise.all(
+    channels.map((channel) =>
+      sendWithRetries(channel, message, emails).catch(() => undefined)
+    )
+  );
+};
+
+export const notify = (event: NotificationEvent, record: RequestRecord): void => {
+  void dispatch(event, { ...record, payload: undefined }).catch((error) =>
+    logger.error({ err: error, event }, "notification_dispatch_failed")
+  );
+};
+
+export const sendTestNotification = async (
+  channel: NotificationChannel,
+  email?: string
+): Promise<void> => {
+  if (channel.type === "email" && !email) {
+    throw new NotificationError(
+      "Add your email address under Notifications to test email.",
+      400
+    );
+  }
+  try {
+    await sendToChannel(
+      channel,
+      {
+        event: "test",
+        title: "Test notification",
+        body: "Book Requests can reach this channel."
+      },
+      email ? [email] : []
+    );
+  } catch (error) {
+    const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+    const reason = status
+      ? `the channel answered with HTTP ${status}`
+      : error instanceof Error
+        ? error.message
+        : "unknown error";
+    throw new NotificationError(`${channel.label}: delivery failed (${reason}).`);
+  }
+};
@@ -1,23 +1,97 @@
 import axios, { AxiosInstance } from "axios";
-import type { ReadarrBook, ReadarrLookupBook, SearchItem } from "./types.js";
+import type {
+  AuthorItem,
+  BookDetail,
+  BookEdition,
+  FollowMonitor,
+  ImportCandidate,
+  ImportMatch,
+  InstanceBookDetail,
+  InstanceStatus,
+  ReadarrAuthor,
+  ReadarrBook,
+  ReadarrEdition,
+  ReadarrHistoryRecord,
+  ReadarrLookupBook,
+  ReadarrQueueItem,
+  RequestOutcome,
+  RequestOverrides,
+  RequestWithdrawal,
+  SearchItem,
+  SeriesEntry
+} from "./types.js";
+import type { MatchKeys } from "./bookMatching.js";
+import { bookMatchKeys, normalizeAuthor } from "./bookMatching.js";
+import { coverUrl, resolveCoverPath } from "./coverProxy.js";
+import { normalizeIsbn } from "./identifiers.js";
+import {
+  InstanceOfflineError,
+  isOfflineError,
+  withInstanceHealth
+} from "./instanceHealth.js";
 import { logger } from "./logger.js";
+import { getCachedLookup, setCachedLookup } from "./searchCache.js";
+import type { SearchQuery } from "./searchQuery.js";
+import { containsWords, formatSearchQuery, normalizeText } from "./searchQuery.js";
 import type { InstanceSettings } from "./settingsStore.js";
 
-export type InstanceConfig = InstanceSettings;
+export type InstanceConfig = Pick<
+  InstanceSettings,
+  | "baseUrl"
+  | "apiKey"
+  | "rootFolderPath"
+  | "qualityProfileId"
+  | "metadataProfileId"
+>;
 
 type LookupResult = ReadarrLookupBook & {
   title?: string;
 };
 
-type ExistingInfo = {
+type BookDetails = Pick<
+  ReadarrBook,
+  "seriesTitle" | "releaseDate" | "overview" | "pageCount" | "images" | "ratings"
+>;
+
+type BookMetadata = Pick<
+  SearchItem,
+  | "coverUrl"
+  | "releaseDate"
+  | "year"
+  | "series"
+  | "seriesPosition"
+  | "overview"
+  | "pageCount"
+  | "rating"
+>;
+
+export type LibraryBook = {
   id: number;
+  key: string;
+  title: string;
+  author: string;
+  isbn13?: string;
+  goodreadsId?: string;
+  foreignBookId?: string;
+  asin?: string;
+  series?: string;
   monitored: boolean;
   hasFile: boolean;
+  matchKeys: string[];
+  text: string;
+  details: BookDetails;
+};
+
+export type Library = {
+  books: Map<number, LibraryBook>;
+  byMatch: Map<string, LibraryBook>;
 };
 
 type RootFolder = {
   id?: number;
   path?: string;
+  name?: string;
+  freeSpace?: number;
   isDefault?: boolean;
   default?: boolean;
 };
@@ -29,20 +103,38 @@ type QualityProfile = {
   default?: boolean;
 };
 
+type MetadataProfile = {
+  id?: number;
+  name?: string;
+};
+
+type Tag = {
+  id?: number;
+  label?: string;
+};
+
+export type InstanceProfiles = {
+  rootFolders: {
+    path: string;
+    name?: string;
+    freeSpace?: number;
+    isDefault: boolean;
+  }[];
+  qualityProfiles: { id: number; name: string; isDefault: boolean }[];
+  metadataProfiles: { id: number; name: string }[];
+  tags: { id: number; label: string }[];
+};
+
 type Defaults = {
   rootFolderPath: string;
   qualityProfileId: number;
+  metadataProfileId?: number;
 };
 
-type AuthorLookup = {
-  name?: string;
-  authorName?: string;
-  foreignAuthorId?: string | number;
-  authorId?: number;
-  books?: ReadarrLookupBook[];
-};
-
-const defaultsCache = new Map<string, { value: Defaults; timestamp: number }>();
+const defaultsCache = new Map<
+  string,
+  { value: Partial<Defaults>; timestamp: number }
+>();
 
 const normalize = (value: string | number | undefined): string =>
   String(value ?? "").trim().toLowerCase();
@@ -92,23 +184,115 @@ const pickGoodreadsId = (
   return String(book.goodreadsId);
 };
 
-const matchesTerm = (term: string, book: ReadarrBook): boolean => {
-  const normalized = normalize(term);
-  if (!normalized) {
-    return false;
+export const summarizeBook = (book: ReadarrLookupBook) => ({
+  title: pickTitle(book),
+  author: pickAuthor(book),
+  isbn13: pickIsbn13(book),
+  foreignBookId: book.foreignBookId,
+  goodreadsId: pickGoodreadsId(book)
+});
+
+const pickDetails = (book: ReadarrLookupBook | ReadarrBook): BookDetails => ({
+  seriesTitle: book.seriesTitle,
+  releaseDate: book.releaseDate,
+  overview: book.overview,
+  pageCount: book.pageCount,
+  images: book.images,
+  ratings: book.ratings
+});
+
+const parseSeriesLinks = (seriesTitle: string | undefined): BookDetail["seriesLinks"] =>
+  (seriesTitle || "")
+    .split(";")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const match = entry.match(/^(.+?)\s*#\s*(\S+)$/);
+      return match ? { title: match[1], position: match[2] } : { title: entry };
+    });
+
+const parseSeries = (
+  seriesTitle: string | undefined
+): Pick<BookMetadata, "series" | "seriesPosition"> => {
+  const [first] = parseSeriesLinks(seriesTitle);
+  return first ? { series: first.title, seriesPosition: first.position } : {};
+};
+
+const pickMetadata = (
+  details: BookDetails,
+  instance: InstanceSettings
+): BookMetadata => {
+  const images = details.images || [];
+  const cover = images.find((image) => image.coverType === "cover") || images[0];
+  const coverPath = resolveCoverPath(instance.baseUrl, cover?.url);
+  const year = details.releaseDate ? new Date(details.releaseDate).getUTCFullYear() : NaN;
+  const votes = details.ratings?.votes || 0;
+  return {
+    coverUrl: coverPath ? coverUrl(instance, coverPath) : undefined,
+    releaseDate: details.releaseDate || undefined,
+    year: year > 1 ? year : undefined,
+    ...parseSeries(details.seriesTitle),
+    overview: details.overview?.trim() || undefined,
+    pageCount: details.pageCount || undefined,
+    rating: votes ? { value: details.ratings?.value || 0, votes } : undefined
+  };
+};
+
+const fillMetadata = (item: SearchItem, metadata: BookMetadata): void => {
+  for (const field of Object.keys(metadata) as (keyof BookMetadata)[]) {
+    if (item[field] === undefined && metadata[field] !== undefined) {
+      Object.assign(item, { [field]: metadata[field] });
+    }
   }
-  const title = normalize(pickTitle(book));
-  const author = normalize(pickAuthor(book));
-  const isbn = normalize(pickIsbn13(book));
-  const goodreads = normalize(book.goodreadsId);
+};
+
+export const pickMatchKeys = (book: ReadarrLookupBook | ReadarrBook): MatchKeys =>
+  bookMatchKeys({
+    key: pickKey(book),
+    title: pickTitle(book),
+    author: pickAuthor(book),
+    isbn13: pickIsbn13(book)
+  });
+
+type QueryTarget = Pick<
+  LibraryBook,
+  "title" | "author" | "isbn13" | "goodreadsId" | "asin" | "series"
+>;
+
+const toQueryTarget = (book: ReadarrLookupBook): QueryTarget => ({
+  title: pickTitle(book),
+  author: pickAuthor(book),
+  isbn13: pickIsbn13(book),
+  goodreadsId: pickGoodreadsId(book),
+  asin: book.asin,
+  series: book.seriesTitle
+});
+
+const matchesFields = (query: SearchQuery, target: QueryTarget): boolean => {
+  const { author, title, series } = query.fields;
+  const text = normalizeText(`${target.title} ${target.author} ${target.series || ""}`);
   return (
-    title.includes(normalized) ||
-    author.includes(normalized) ||
-    isbn.includes(normalized) ||
-    goodreads.includes(normalized)
+    (!author || containsWords(target.author, author)) &&
+    (!title || containsWords(target.title, title)) &&
+    (!series || containsWords(target.series || "", series)) &&
+    query.phrases.every((phrase) => text.includes(normalizeText(phrase)))
   );
 };
 
+const matchesIdentifiers = (query: SearchQuery, target: QueryTarget): boolean => {
+  const { isbn, asin, goodreads } = query.fields;
+  return (
+    (!isbn || normalizeIsbn(target.isbn13 || "") === isbn) &&
+    (!asin || (target.asin || "").toUpperCase() === asin) &&
+    (!goodreads || target.goodreadsId === goodreads)
+  );
+};
+
+const matchesLibraryBook = (query: SearchQuery, book: LibraryBook): boolean =>
+  matchesFields(query, book) &&
+  matchesIdentifiers(query, book) &&
+  (!query.text.length || containsWords(book.text, query.text.join(" ")));
+
 const createClient = (instance: InstanceConfig): AxiosInstance =>
   axios.create({
     baseURL: instance.baseUrl,
@@ -146,6 +330,9 @@ const lookupBooks = async (
       });
       data = response.data || [];
     } catch (error) {
+      if (isOfflineError(error)) {
+        throw error;
+      }
       logger.warn({ err: error, term, page }, "book_lookup_failed");
       break;
     }
@@ -179,19 +366,22 @@ const lookupAuthors = async (
   client: AxiosInstance,
   term: string,
   limit: number
-): Promise<AuthorLookup[]> => {
+): Promise<ReadarrAuthor[]> => {
   try {
-    const response = await client.get<AuthorLookup[]>("/api/v1/author/lookup", {
+    const response = await client.get<ReadarrAuthor[]>("/api/v1/author/lookup", {
       params: { term, limit, pageSize: limit, includeBooks: true }
     });
     return response.data || [];
   } catch (error) {
+    if (isOfflineError(error)) {
+      throw error;
+    }
     logger.debug({ err: error }, "author_lookup_failed");
     return [];
   }
 };
 
-const collectAuthorBooks = (authors: AuthorLookup[]): LookupResult[] => {
+const collectAuthorBooks = (authors: ReadarrAuthor[]): LookupResult[] => {
   const results: LookupResult[] = [];
   for (const author of authors) {
     const name = author.authorName || author.name;
@@ -214,7 +404,7 @@ const collectAuthorBooks = (authors: AuthorLookup[]): LookupResult[] => {
 
 const expandAuthorBooks = async (
   client: AxiosInstance,
-  authors: AuthorLookup[],
+  authors: ReadarrAuthor[],
   limit: number
 ): Promise<LookupResult[]> => {
   const results: LookupResult[] = [];
@@ -271,40 +461,169 @@ const resolveLookupForAdd = async (
   return lookup;
 };
 
-const resolveDefaults = async (instance: InstanceConfig): Promise<Defaults> => {
+export const fetchProfiles = async (
+  instance: InstanceConfig
+): Promise<InstanceProfiles> => {
+  const client = createClient(instance);
+  const [rootResponse, qualityResponse, metadataResponse, tagResponse] =
+    await Promise.all([
+      client.get<RootFolder[]>("/api/v1/rootfolder"),
+      client.get<QualityProfile[]>("/api/v1/qualityprofile"),
+      client.get<MetadataProfile[]>("/api/v1/metadataprofile").catch((error) => {
+        logger.debug({ err: error }, "metadata_profile_fetch_failed");
+        return { data: [] as MetadataProfile[] };
+      }),
+      client.get<Tag[]>("/api/v1/tag").catch((error) => {
+        logger.debug({ err: error }, "tag_fetch_failed");
+        return { data: [] as Tag[] };
+      })
+    ]);
+
+  return {
+    rootFolders: (rootResponse.data || [])
+      .filter((folder) => folder.path)
+      .map((folder) => ({
+        path: folder.path!,
+        name: folder.name,
+        freeSpace: folder.freeSpace,
+        isDefault: Boolean(folder.isDefault || folder.default)
+      })),
+    qualityProfiles: (qualityResponse.data || [])
+      .filter((profile) => profile.id != null)
+      .map((profile) => ({
+        id: profile.id!,
+        name: profile.name || `Profile ${profile.id}`,
+        isDefault: Boolean(profile.isDefault || profile.default)
+      })),
+    metadataProfiles: (metadataResponse.data || [])
+      .filter((profile) => profile.id != null)
+      .map((profile) => ({
+        id: profile.id!,
+        name: profile.name || `Profile ${profile.id}`
+      })),
+    tags: (tagResponse.data || [])
+      .filter((tag) => tag.id != null)
+      .map((tag) => ({ id: tag.id!, label: tag.label || `Tag ${tag.id}` }))
+  };
+};
+
+export const findInvalidOverride = (
+  overrides: RequestOverrides,
+  profiles: InstanceProfiles
+): string | null => {
+  if (
+    overrides.rootFolderPath &&
+    !profiles.rootFolders.some((folder) => folder.path === overrides.rootFolderPath)
+  ) {
+    return `Root folder "${overrides.rootFolderPath}" does not exist in Readarr.`;
+  }
+  if (
+    overrides.qualityProfileId &&
+    !profiles.qualityProfiles.some((profile) => profile.id === overrides.qualityProfileId)
+  ) {
+    return `Quality profile ${overrides.qualityProfileId} does not exist in Readarr.`;
+  }
+  if (
+    overrides.metadataProfileId &&
+    !profiles.metadataProfiles.some(
+      (profile) => profile.id === overrides.metadataProfileId
+    )
+  ) {
+    return `Metadata profile ${overrides.metadataProfileId} does not exist in Readarr.`;
+  }
+  const unknownTag = overrides.tags?.find(
+    (tag) => !profiles.tags.some((entry) => entry.id === tag)
+  );
+  if (unknownTag != null) {
+    return `Tag ${unknownTag} does not exist in Readarr.`;
+  }
+  return null;
+};
+
+export const findMissingProfiles = (
+  instance: InstanceConfig,
+  profiles: InstanceProfiles
+): string[] => {
+  const warnings: string[] = [];
+  const rootFolderPath = instance.rootFolderPath?.trim();
+  if (
+    rootFolderPath &&
+    !profiles.rootFolders.some((folder) => folder.path === rootFolderPath)
+  ) {
+    warnings.push(`Root folder "${rootFolderPath}" no longer exists in Readarr.`);
+  }
+  if (
+    instance.qualityProfileId &&
+    !profiles.qualityProfiles.some((profile) => profile.id === instance.qualityProfileId)
+  ) {
+    warnings.push(
+      `Quality profile ${instance.qualityProfileId} no longer exists in Readarr.`
+    );
+  }
+  if (
+    instance.metadataProfileId &&
+    !profiles.metadataProfiles.some(
+      (profile) => profile.id === instance.metadataProfileId
+    )
+  ) {
+    warnings.push(
+      `Metadata profile ${instance.metadataProfileId} no longer exists in Readarr.`
+    );
+  }
+  return warnings;
+};
+
+const fetchDefaults = async (instance: InstanceConfig): Promise<Partial<Defaults>> => {
   const cacheKey = instance.baseUrl;
   const cached = defaultsCache.get(cacheKey);
   if (cached && Date.now() - cached.timestamp < 10 * 60 * 1000) {
     return cached.value;
   }
 
-  const client = createClient(instance);
-  const [rootResponse, profileResponse] = await Promise.all([
-    client.get<RootFolder[]>("/api/v1/rootfolder"),
-    client.get<QualityProfile[]>("/api/v1/qualityprofile")
-  ]);
-
-  const rootFolders = rootResponse.data || [];
-  const profiles = profileResponse.data || [];
+  const profiles = await fetchProfiles(instance);
   const root =
-    rootFolders.find((folder) => folder.isDefault || folder.default) ||
-    rootFolders[0];
-  const profile =
-    profiles.find((entry) => entry.isDefault || entry.default) || profiles[0];
+    profiles.rootFolders.find((folder) => folder.isDefault) || profiles.rootFolders[0];
+  const quality =
+    profiles.qualityProfiles.find((profile) => profile.isDefault) ||
+    profiles.qualityProfiles[0];
+
+  const value = {
+    rootFolderPath: root?.path,
+    qualityProfileId: quality?.id,
+    metadataProfileId: profiles.metadataProfiles[0]?.id
+  };
+  defaultsCache.set(cacheKey, { value, timestamp: Date.now() });
+  return value;
+};
 
-  if (!root?.path) {
+const resolveDefaults = async (instance: InstanceConfig): Promise<Defaults> => {
+  const configured = {
+    rootFolderPath: instance.rootFolderPath?.trim() || undefined,
+    qualityProfileId: instance.qualityProfileId,
+    metadataProfileId: instance.metadataProfileId
+  };
+  const fetched =
+    configured.rootFolderPath && configured.qualityProfileId
+      ? {}
+      : await fetchDefaults(instance);
+
+  const rootFolderPath = configured.rootFolderPath || fetched.rootFolderPath;
+  const qualityProfileId = configured.qualityProfileId || fetched.qualityProfileId;
+  if (!rootFolderPath) {
     throw new Error("Readarr does not have a default root folder configured.");
   }
-  if (!profile?.id) {
+  if (!qualityProfileId) {
     throw new Error("Readarr does not have a default quality profile configured.");
   }
 
-  const value = { rootFolderPath: root.path, qualityProfileId: profile.id };
-  defaultsCache.set(cacheKey, { value, timestamp: Date.now() });
-  return value;
+  return {
+    rootFolderPath,
+    qualityProfileId,
+    metadataProfileId: configured.metadataProfileId || fetched.metadataProfileId
+  };
 };
 
-const hasFile = (book: ReadarrBook): boolean => {
+export const hasFile = (book: ReadarrBook): boolean => {
   if (book.bookFileId) {
     return true;
   }
@@ -317,34 +636,129 @@ const hasFile = (book: ReadarrBook): boolean => {
   return (book.statistics?.sizeOnDisk ?? 0) > 0;
 };
 
-const mapExisting = (books: ReadarrBook[]): Map<string, ExistingInfo> => {
-  const keys = new Map<string, ExistingInfo>();
+const toLibraryBook = (book: ReadarrBook & { id: number }): LibraryBook => {
+  const title = pickTitle(book);
+  const author = pickAuthor(book);
+  const isbn13 = pickIsbn13(book);
+  const goodreadsId = pickGoodreadsId(book);
+  return {
+    id: book.id,
+    key: pickKey(book),
+    title,
+    author,
+    isbn13,
+    goodreadsId,
+    foreignBookId: book.foreignBookId,
+    asin: book.asin,
+    series: book.seriesTitle,
+    monitored: book.monitored ?? true,
+    hasFile: hasFile(book),
+    matchKeys: pickMatchKeys(book).register,
+    details: pickDetails(book),
+    text: [normalizeText(title), normalizeText(author), isbn13, goodreadsId]
+      .filter(Boolean)
+      .join(" ")
+  };
+};
+
+export const removeLibraryBook = (library: Library, id: number): void => {
+  const entry = library.books.get(id);
+  if (!entry) {
+    return;
+  }
+  library.books.delete(id);
+  for (const key of entry.matchKeys) {
+    if (library.byMatch.get(key) === entry) {
+      library.byMatch.delete(key);
+    }
+  }
+};
+
+export const upsertLibraryBook = (library: Library, book: ReadarrBook): void => {
+  if (book.id == null) {
+    return;
+  }
+  removeLibraryBook(library, book.id);
+  const entry = toLibraryBook({ ...book, id: book.id });
+  library.books.set(entry.id, entry);
+  for (const key of entry.matchKeys) {
+    library.byMatch.set(key, entry);
+  }
+};
+
+export const createLibrary = (books: ReadarrBook[]): Library => {
+  const library: Library = {
+    books: new Map(),
+    byMatch: new Map()
+  };
   for (const book of books) {
-    const key = pickKey(book);
-    if (key && book.id != null) {
-      keys.set(key, {
-        id: book.id,
-        monitored: book.monitored ?? true,
-        hasFile: hasFile(book)
-      });
+    upsertLibraryBook(library, book);
+  }
+  return library;
+};
+
+const findInLibrary = (
+  library: Library,
+  keys: MatchKeys
+): LibraryBook | undefined => {
+  for (const key of keys.lookup) {
+    const entry = library.byMatch.get(key);
+    if (entry) {
+      return entry;
+    }
+  }
+  return undefined;
+};
+
+const resolveItemKey = (
+  aliases: Map<string, string>,
+  keys: MatchKeys,
+  fallback: string
+): string => {
+  const key = keys.lookup.map((alias) => aliases.get(alias)).find(Boolean) || fallback;
+  for (const alias of keys.register) {
+    if (!aliases.has(alias)) {
+      aliases.set(alias, key);
     }
   }
-  return keys;
+  return key;
 };
 
+const isAlreadyAdded = (book?: { monitored?: boolean; hasFile?: boolean }): boolean =>
+  Boolean(book?.monitored && book.hasFile);
+
+const emptyStatuses = (
+  instances: InstanceSettings[]
+): Record<string, InstanceStatus> =>
+  Object.fromEntries(
+    instances.map((instance) => [
+      instance.id,
+      { available: false, alreadyAdded: false }
+    ])
+  );
+
 const ingest = (
   items: Map<string, SearchItem>,
+  aliases: Map<string, string>,
   lookup: LookupResult[],
-  existingMap: Map<string, ExistingInfo>,
-  instance: "ebook" | "audio"
-): void => {
+  library: Library,
+  matched: Set<number>,
+  instance: InstanceSettings,
+  instances: InstanceSettings[]
+): string[] => {
+  const touched: string[] = [];
   for (const book of lookup) {
-    const key = pickKey(book);
-    if (!key) {
+    const ownKey = pickKey(book);
+    if (!ownKey) {
       continue;
     }
-    const existing = existingMap.get(key);
-    const alreadyAdded = Boolean(existing && existing.monitored && existing.hasFile);
+    const keys = pickMatchKeys(book);
+    const key = resolveItemKey(aliases, keys, ownKey);
+    const existing = findInLibrary(library, keys);
+    if (existing) {
+      matched.add(existing.id);
+    }
+    const alreadyAdded = isAlreadyAdded(existing);
     const current = items.get(key) || {
       key,
       title: pickTitle(book),
@@ -352,21 +766,16 @@ const ingest = (
       isbn13: pickIsbn13(book),
       foreignBookId: book.foreignBookId,
       goodreadsId: pickGoodreadsId(book),
-      ebook: { available: false, alreadyAdded: false },
-      audio: { available: false, alreadyAdded: false }
+      instances: emptyStatuses(instances)
     };
-
-    if (instance === "ebook") {
-      current.ebook = {
-        available: true,
-        alreadyAdded,
-        existingId: existing?.id,
-        monitored: existing?.monitored,
-        hasFile: existing?.hasFile,
-        lookup: book
-      };
-    } else {
-      current.audio = {
+    current.isbn13 ||= pickIsbn13(book);
+    current.foreignBookId ||= book.foreignBookId;
+    current.goodreadsId ||= pickGoodreadsId(book);
+    fillMetadata(current, pickMetadata(pickDetails(book), instance));
+
+    const previous = current.instances[instance.id];
+    if (!previous?.available || (existing && !previous.existingId)) {
+      current.instances[instance.id] = {
         available: true,
         alreadyAdded,
         existingId: existing?.id,
@@ -377,198 +786,774 @@ const ingest = (
     }
 
     items.set(key, current);
+    touched.push(key);
   }
+  return touched;
 };
 
 const addExistingMatches = (
   items: Map<string, SearchItem>,
-  books: ReadarrBook[],
-  existingMap: Map<string, ExistingInfo>,
-  instance: "ebook" | "audio",
-  term: string
-): void => {
-  for (const book of books) {
-    if (!matchesTerm(term, book)) {
+  aliases: Map<string, string>,
+  library: Library,
+  matched: Set<number>,
+  instance: InstanceSettings,
+  instances: InstanceSettings[],
+  query: SearchQuery
+): string[] => {
+  const touched: string[] = [];
+  for (const existing of library.books.values()) {
+    if (!matchesLibraryBook(query, existing)) {
       continue;
     }
-    const key = pickKey(book);
-    if (!key || items.has(key)) {
+    if (!existing.key || matched.has(existing.id)) {
       continue;
     }
-    const existing = existingMap.get(key);
-    if (!existing) {
+    const key = resolveItemKey(aliases, bookMatchKeys(existing), existing.key);
+    const entry: SearchItem = items.get(key) || {
+      key,
+      title: existing.title,
+      author: existing.author,
+      isbn13: existing.isbn13,
+      foreignBookId: existing.foreignBookId,
+      goodreadsId: existing.goodreadsId,
+      instances: emptyStatuses(instances)
+    };
+    if (entry.instances[instance.id]?.available) {
+      continue;
+    }
+    fillMetadata(entry, pickMetadata(existing.details, instance));
+
+    entry.instances[instance.id] = {
+      available: true,
+      alreadyAdded: isAlreadyAdded(existing),
+      existingId: existing.id,
+      monitored: existing.monitored,
+      hasFile: existing.hasFile
+    };
+
+    items.set(key, entry);
+    touched.push(key);
+  }
+  return touched;
+};
+
+const maxAuthorCards = 5;
+
+const pickAuthorName = (author: ReadarrAuthor): string =>
+  (author.authorName || author.name || "").trim();
+
+export const pickAuthorKey = (author: ReadarrAuthor): string => {
+  const name = normalizeAuthor(pickAuthorName(author));
+  if (name) {
+    return `author:${name}`;
+  }
+  const id = normalize(author.foreignAuthorId);
+  return id ? `author:id:${id}` : "";
+};
+
+const stripAuthorBooks = ({ books, ...author }: ReadarrAuthor): ReadarrAuthor => author;
+
+const ingestAuthors = (
+  authors: Map<string, AuthorItem>,
+  found: ReadarrAuthor[],
+  instance: InstanceSettings,
+  instances: InstanceSettings[]
+): string[] => {
+  const touched: string[] = [];
+  for (const author of found.slice(0, maxAuthorCards)) {
+    const key = pickAuthorKey(author);
+    if (!key) {
       continue;
     }
-    const alreadyAdded = Boolean(existing.monitored && existing.hasFile);
-    const entry: SearchItem = {
+    const entry: AuthorItem = authors.get(key) || {
       key,
-      title: pickTitle(book),
-      author: pickAuthor(book),
-      isbn13: pickIsbn13(book),
-      foreignBookId: book.foreignBookId,
-      goodreadsId: pickGoodreadsId(book),
-      ebook: { available: false, alreadyAdded: false },
-      audio: { available: false, alreadyAdded: false }
+      name: pickAuthorName(author) || "Unknown author",
+      foreignAuthorId:
+        author.foreignAuthorId !== undefined ? String(author.foreignAuthorId) : undefined,
+      instances: Object.fromEntries(
+        instances.map((candidate) => [candidate.id, { available: false }])
+      )
     };
+    if (entry.instances[instance.id]?.available) {
+      continue;
+    }
 
-    if (instance === "ebook") {
-      entry.ebook = {
-        available: true,
-        alreadyAdded,
-        existingId: existing.id,
-        monitored: existing.monitored,
-        hasFile: existing.hasFile
-      };
-    } else {
-      entry.audio = {
-        available: true,
-        alreadyAdded,
-        existingId: existing.id,
-        monitored: existing.monitored,
-        hasFile: existing.hasFile
-      };
+    const images = author.images || [];
+    const image = images.find((candidate) => candidate.coverType === "poster") || images[0];
+    const imagePath = resolveCoverPath(instance.baseUrl, image?.url);
+    entry.overview = entry.overview || author.overview?.trim() || undefined;
+    entry.imageUrl = entry.imageUrl || (imagePath ? coverUrl(instance, imagePath) : undefined);
+    entry.bookCount =
+      entry.bookCount || author.statistics?.bookCount || author.books?.length || undefined;
+
+    entry.instances[instance.id] = {
+      available: true,
+      existingId: author.id || undefined,
+      monitored: author.id ? author.monitored : undefined,
+      monitorNewItems: author.id ? author.monitorNewItems : undefined,
+      lookup: stripAuthorBooks(author)
+    };
+    authors.set(key, entry);
+    touched.push(key);
+  }
+  return touched;
+};
+
+const identifierTerm = (query: SearchQuery): string => {
+  const { isbn, asin, goodreads } = query.fields;
+  if (isbn) {
+    return `isbn:${isbn}`;
+  }
+  if (asin) {
+    return `asin:${asin}`;
+  }
+  return goodreads ? `edition:${goodreads}` : "";
+};
+
+const searchInstance = async (
+  instance: InstanceConfig,
+  query: SearchQuery,
+  lookupLimit: number,
+  onBooks: (books: LookupResult[]) => void,
+  onAuthors: (authors: ReadarrAuthor[]) => void
+): Promise<void> => {
+  const client = createClient(instance);
+  let found = 0;
+  const emit = (books: LookupResult[]) => {
+    const matching = books.filter((book) => matchesFields(query, toQueryTarget(book)));
+    found += matching.length;
+    onBooks(matching);
+  };
+
+  const identifier = identifierTerm(query);
+  if (identifier) {
+    emit(await lookupBooks(client, identifier, lookupLimit));
+    return;
+  }
+
+  const { author, title, series } = query.fields;
+  const text = [title, series, ...query.phrases, ...query.text].filter(Boolean).join(" ");
+  if (!text && author) {
+    const authors = await lookupAuthors(client, author, lookupLimit);
+    onAuthors(authors);
+    emit(collectAuthorBooks(authors));
+    if (found < lookupLimit) {
+      emit(
+        authors.length
+          ? await expandAuthorBooks(client, authors, lookupLimit)
+          : await lookupBooks(client, `author:${author}`, lookupLimit)
+      );
     }
+    return;
+  }
 
-    items.set(key, entry);
+  const term = author ? `${text} ${author}` : text;
+  if (Object.keys(query.fields).length) {
+    emit(await lookupBooks(client, term, lookupLimit));
+    return;
+  }
+
+  const [, authorLookup] = await Promise.all([
+    lookupBooks(client, term, lookupLimit).then(emit),
+    lookupAuthors(client, term, lookupLimit).then((authors) => {
+      onAuthors(authors);
+      emit(collectAuthorBooks(authors));
+      return authors;
+    })
+  ]);
+
+  if (found < lookupLimit) {
+    emit(
+      authorLookup.length
+        ? await expandAuthorBooks(client, authorLookup, lookupLimit)
+        : await lookupBooks(client, `author:${term}`, lookupLimit)
+    );
   }
 };
 
+export const fetchLibraryBooks = async (
+  instance: InstanceConfig
+): Promise<ReadarrBook[]> => {
+  const client = createClient(instance);
+  const response = await client.get<ReadarrBook[]>("/api/v1/book", {
+    timeout: 120000
+  });
+  return response.data || [];
+};
+
+export type SearchHandlers = {
+  onBatch?: (items: SearchItem[]) => void;
+  onAuthors?: (authors: AuthorItem[]) => void;
+  onInstanceError?: (instanceId: string, error: unknown) => void;
+};
+
 export const searchBooks = async (
-  ebooks: InstanceConfig,
-  audio: InstanceConfig,
-  term: string
+  instances: InstanceSettings[],
+  query: SearchQuery,
+  loadLibrary: (instance: InstanceSettings) => Promise<Library>,
+  handlers: SearchHandlers = {}
 ): Promise<SearchItem[]> => {
-  const ebooksClient = createClient(ebooks);
-  const audioClient = createClient(audio);
   const lookupLimitRaw = Number(process.env.READARR_LOOKUP_LIMIT);
   const lookupLimit =
     Number.isFinite(lookupLimitRaw) && lookupLimitRaw >= 20
       ? lookupLimitRaw
       : 50;
 
-  const [ebookLookup, audioLookup, ebookAuthorLookup, audioAuthorLookup, ebookExisting, audioExisting] =
-    await Promise.all([
-      lookupBooks(ebooksClient, term, lookupLimit),
-      lookupBooks(audioClient, term, lookupLimit),
-      lookupAuthors(ebooksClient, term, lookupLimit),
-      lookupAuthors(audioClient, term, lookupLimit),
-      ebooksClient.get<ReadarrBook[]>("/api/v1/book"),
-      audioClient.get<ReadarrBook[]>("/api/v1/book")
-    ]);
-
+  const term = formatSearchQuery(query);
   const items = new Map<string, SearchItem>();
-  const ebookMap = mapExisting(ebookExisting.data || []);
-  const audioMap = mapExisting(audioExisting.data || []);
-
-  const ebookBooks = [
-    ...(ebookLookup || []),
-    ...collectAuthorBooks(ebookAuthorLookup || [])
-  ];
-  const audioBooks = [
-    ...(audioLookup || []),
-    ...collectAuthorBooks(audioAuthorLookup || [])
-  ];
+  const aliases = new Map<string, string>();
+  const authors = new Map<string, AuthorItem>();
+  const failed: string[] = [];
+  const emit = (keys: string[]) => {
+    if (handlers.onBatch && keys.length) {
+      handlers.onBatch(Array.from(new Set(keys), (key) => items.get(key)!));
+    }
+  };
+  const emitAuthors = (keys: string[]) => {
+    if (handlers.onAuthors && keys.length) {
+      handlers.onAuthors(Array.from(new Set(keys), (key) => authors.get(key)!));
+    }
+  };
 
-  if (ebookBooks.length < lookupLimit) {
-    const more =
-      ebookAuthorLookup && ebookAuthorLookup.length
-        ? await expandAuthorBooks(ebooksClient, ebookAuthorLookup, lookupLimit)
-        : await lookupBooks(ebooksClient, `author:${term}`, lookupLimit);
-    ebookBooks.push(...more);
-  }
-  if (audioBooks.length < lookupLimit) {
-    const more =
-      audioAuthorLookup && audioAuthorLookup.length
-        ? await expandAuthorBooks(audioClient, audioAuthorLookup, lookupLimit)
-        : await lookupBooks(audioClient, `author:${term}`, lookupLimit);
-    audioBooks.push(...more);
-  }
-
-  ingest(items, ebookBooks, ebookMap, "ebook");
-  ingest(items, audioBooks, audioMap, "audio");
-  addExistingMatches(
-    items,
-    ebookExisting.data || [],
-    ebookMap,
-    "ebook",
-    term
-  );
-  addExistingMatches(
-    items,
-    audioExisting.data || [],
-    audioMap,
-    "audio",
-    term
+  await Promise.all(
+    instances.map(async (instance) => {
+      const matched = new Set<number>();
+      try {
+        await withInstanceHealth(instance.id, async () => {
+          const library = await loadLibrary(instance);
+          const cached = getCachedLookup(instance.id, term);
+          if (cached) {
+            emitAuthors(ingestAuthors(authors, cached.authors, instance, instances));
+            emit(
+              ingest(items, aliases, cached.books, library, matched, instance, instances)
+            );
+          } else {
+            const found: LookupResult[] = [];
+            const foundAuthors: ReadarrAuthor[] = [];
+            await searchInstance(
+              instance,
+              query,
+              lookupLimit,
+              (books) => {
+                found.push(...books);
+                emit(
+                  ingest(items, aliases, books, library, matched, instance, instances)
+                );
+              },
+              (lookup) => {
+                foundAuthors.push(...lookup.slice(0, maxAuthorCards).map(stripAuthorBooks));
+                emitAuthors(ingestAuthors(authors, lookup, instance, instances));
+              }
+            );
+            setCachedLookup(instance.id, term, { books: found, authors: foundAuthors }, [
+              ...found.flatMap((book) => pickMatchKeys(book).register),
+              ...foundAuthors.map(pickAuthorKey).filter(Boolean)
+            ]);
+          }
+          emit(
+            addExistingMatches(
+              items,
+              aliases,
+              library,
+              matched,
+              instance,
+              instances,
+              query
+            )
+          );
+        });
+      } catch (error) {
+        logger.warn({ err: error, instance: instance.id }, "instance_search_failed");
+        failed.push(instance.id);
+        handlers.onInstanceError?.(instance.id, error);
+      }
+    })
   );
 
+  for (const item of items.values()) {
+    for (const instanceId of failed) {
+      if (!item.instances[instanceId]?.available) {
+        item.instances[instanceId] = { available: false, alreadyAdded: false, offline: true };
+      }
+    }
+  }
+  for (const author of authors.values()) {
+    for (const instanceId of failed) {
+      if (!author.instances[instanceId]?.available) {
+        author.instances[instanceId] = { available: false, offline: true };
+      }
+    }
+  }
+
   return Array.from(items.values()).sort((a, b) =>
     a.title.localeCompare(b.title)
   );
 };
 
+type InstanceMatch = {
+  lookup?: LookupResult;
+  book?: ReadarrBook;
+  editions: ReadarrEdition[];
+};
+
+const fetchEditions = async (
+  client: AxiosInstance,
+  bookId: number
+): Promise<ReadarrEdition[]> => {
+  const response = await client.get<ReadarrEdition[]>("/api/v1/edition", {
+    params: { bookId }
+  });
+  return response.data || [];
+};
+
+const keyLookupTerms = (key: string): string[] => {
+  if (key.startsWith("id:")) {
+    const value = key.slice(3);
+    const isbn = normalizeIsbn(value);
+    if (isbn) {
+      return [`isbn:${isbn}`];
+    }
+    if (/^\d+$/.test(value)) {
+      return [`work:${value}`, `edition:${value}`, value];
+    }
+    return /^[a-z0-9]{10}$/.test(value) ? [`asin:${value.toUpperCase()}`] : [value];
+  }
+  const match = key.match(/^t:(.*)\|a:(.*)$/);
+  return match ? [`${match[1]} ${match[2]}`.trim()] : [];
+};
+
+const findInstanceBook = async (
+  instance: InstanceSettings,
+  keys: MatchKeys,
+  terms: string[],
+  loadLibrary: (instance: InstanceSettings) => Promise<Library>
+): Promise<InstanceMatch | null> => {
+  const client = createClient(instance);
+  const library = await loadLibrary(instance);
+  let lookup: LookupResult | undefined;
+  for (const term of terms) {
+    const results = await lookupBooks(client, term, 10);
+    lookup = results.find((book) =>
+      pickMatchKeys(book).lookup.some((key) => keys.register.includes(key))
+    );
+    if (lookup) {
+      break;
+    }
+  }
+
+  const entry =
+    findInLibrary(library, keys) ||
+    (lookup ? findInLibrary(library, pickMatchKeys(lookup)) : undefined);
+  const [book, editions] = entry
+    ? await Promise.all([
+        fetchBook(instance, entry.id),
+        fetchEditions(client, entry.id).catch((error) => {
+          logger.warn({ err: error, bookId: entry.id }, "edition_fetch_failed");
+          return [];
+        })
+      ])
+    : [null, []];
+  if (!lookup && !book) {
+    return null;
+  }
+  return {
+    lookup,
+    book: book || undefined,
+    editions: editions.length ? editions : lookup?.editions || []
+  };
+};
+
+const toBookEdition = (edition: ReadarrEdition): BookEdition[] =>
+  edition.foreignEditionId
+    ? [
+        {
+          id: edition.foreignEditionId,
+          title: edition.title || "Untitled",
+          format: edition.format || undefined,
+          isEbook: edition.isEbook,
+          isbn13: edition.isbn13 || undefined,
+          asin: edition.asin || undefined,
+          publisher: edition.publisher || undefined,
+          language: edition.language || undefined,
+          pageCount: edition.pageCount || undefined,
+          releaseDate: edition.releaseDate || undefined,
+          monitored: edition.monitored
+        }
+      ]
+    : [];
+
+const toInstanceDetail = (match: InstanceMatch): InstanceBookDetail => {
+  const { book } = match;
+  const present = book ? hasFile(book) : false;
+  return {
+    available: true,
+    alreadyAdded: isAlreadyAdded({ monitored: book?.monitored, hasFile: present }),
+    existingId: book?.id,
+    monitored: book?.monitored,
+    hasFile: book ? present : undefined,
+    lookup: match.lookup,
+    editions: match.editions.flatMap(toBookEdition),
+    fileCount: book?.statistics?.bookFileCount,
+    sizeOnDisk: book?.statistics?.sizeOnDisk,
+    lastSearchTime: book?.lastSearchTime || undefined
+  };
+};
+
+export const fetchBookDetail = async (
+  instances: InstanceSettings[],
+  key: string,
+  loadLibrary: (instance: InstanceSettings) => Promise<Library>,
+  handlers: Pick<SearchHandlers, "onInstanceError"> = {}
+): Promise<BookDetail | null> => {
+  const matches = new Map<string, InstanceMatch>();
+  const failed = new Set<string>();
+  const find = (instance: InstanceSettings, keys: MatchKeys, terms: string[]) =>
+    withInstanceHealth(instance.id, () =>
+      findInstanceBook(instance, keys, terms, loadLibrary)
+    ).then(
+      (match) => {
+        if (match) {
+          matches.set(instance.id, match);
+        }
+      },
+      (error) => {
+        logger.warn({ err: error, instance: instance.id }, "book_detail_failed");
+        failed.add(instance.id);
+        handlers.onInstanceError?.(instance.id, error);
+      }
+    );
+
+  const terms = keyLookupTerms(key);
+  await Promise.all(
+    instances.map((instance) => find(instance, { lookup: [key], register: [key] }, terms))
+  );
+
+  const primary = instances.map((instance) => matches.get(instance.id)).find(Boolean);
+  const source = primary?.lookup || primary?.book;
+  if (!source) {
+    if (failed.size && failed.size === instances.length) {
+      throw new InstanceOfflineError("No Readarr instance could be reached.");
+    }
+    return null;
+  }
+
+  // Other instances may list the same work under a different edition id, so
+  // look for it there by title and author the way search clusters results.
+  const title = pickTitle(source);
+  const workTerm = `${title} ${normalizeAuthor(pickAuthor(source), title)}`;
+  await Promise.all(
+    instances
+      .filter((instance) => !matches.has(instance.id) && !failed.has(instance.id))
+      .map((instance) => find(instance, pickMatchKeys(source), [workTerm]))
+  );
+
+  const detail: BookDetail = {
+    key,
+    title,
+    author: pickAuthor(source),
+    isbn13: pickIsbn13(source),
+    foreignBookId: source.foreignBookId,
+    goodreadsId: pickGoodreadsId(source),
+    seriesLinks: parseSeriesLinks(source.seriesTitle),
+    instances: {}
+  };
+  for (const instance of instances) {
+    const match = matches.get(instance.id);
+    if (!match) {
+      detail.instances[instance.id] = {
+        available: false,
+        alreadyAdded: false,
+        offline: failed.has(instance.id) || undefined,
+        editions: []
+      };
+      continue;
+    }
+    const book = match.lookup || match.book!;
+    detail.isbn13 ||= pickIsbn13(book);
+    detail.goodreadsId ||= pickGoodreadsId(book);
+    fillMetadata(detail, pickMetadata(pickDetails(book), instance));
+    detail.instances[instance.id] = toInstanceDetail(match);
+  }
+  return detail;
+};
+
+const seriesPositionIn = (item: SearchItem, seriesTitle: string): string | undefined => {
+  const name = normalizeText(seriesTitle);
+  for (const status of Object.values(item.instances)) {
+    const link = parseSeriesLinks(status.lookup?.seriesTitle).find(
+      (entry) => normalizeText(entry.title) === name
+    );
+    if (link) {
+      return link.position || "";
+    }
+  }
+  return item.series && normalizeText(item.series) === name
+    ? item.seriesPosition || ""
+    : undefined;
+};
+
+const positionOrder = (position: string): number => {
+  const value = Number.parseFloat(position);
+  return Number.isFinite(value) ? value : Number.POSITIVE_INFINITY;
+};
+
+export const fetchSeriesEntries = async (
+  instances: InstanceSettings[],
+  book: BookDetail,
+  seriesTitle: string,
+  loadLibrary: (instance: InstanceSettings) => Promise<Library>,
+  handlers: Pick<SearchHandlers, "onInstanceError"> = {}
+): Promise<SeriesEntry[]> => {
+  const surname = normalizeAuthor(book.author, book.title).split(" ").pop();
+  const items = await searchBooks(
+    instances,
+    {
+      text: [],
+      phrases: [],
+      fields: surname ? { series: seriesTitle, author: surname } : { series: seriesTitle }
+    },
+    loadLibrary,
+    handlers
+  );
+
+  const entries: SeriesEntry[] = [];
+  for (const item of items) {
+    const position = seriesPositionIn(item, seriesTitle);
+    if (position !== undefined) {
+      entries.push({ ...item, position: position || undefined });
+    }
+  }
+  return entries.sort(
+    (a, b) =>
+      positionOrder(a.position || "") - positionOrder(b.position || "") ||
+      a.title.localeCompare(b.title)
+  );
+};
+
+type ImportTarget = {
+  title: string;
+  author: string;
+  isbn13?: string;
+  goodreadsId?: string;
+};
+
+const toImportCandidate = (book: LookupResult): ImportCandidate => {
+  const year = book.releaseDate ? new Date(book.releaseDate).getUTCFullYear() : NaN;
+  return {
+    key: pickKey(book),
+    title: pickTitle(book),
+    author: pickAuthor(book),
+    year: year > 1 ? year : undefined,
+    lookup: book
+  };
+};
+
+const resolveImportMatch = (
+  library: Library,
+  lookup: LookupResult,
+  matchedBy: ImportMatch["matchedBy"]
+): ImportMatch => {
+  const entry = findInLibrary(library, pickMatchKeys(lookup));
+  return isAlreadyAdded(entry)
+    ? { status: "owned", matchedBy, existingId: entry?.id }
+    : { status: "matched", matchedBy, key: pickKey(lookup), lookup, existingId: entry?.id };
+};
+
+// Identifiers are tried first; a title/author lookup only counts as a match
+// when exactly one work shares the row's title and author surname.
+export const matchImportRow = async (
+  instance: InstanceSettings,
+  library: Library,
+  target: ImportTarget
+): Promise<ImportMatch> => {
+  const keys = bookMatchKeys({ key: "", ...target });
+  const owned = findInLibrary(library, keys);
+  if (isAlreadyAdded(owned)) {
+    return { status: "owned", matchedBy: "library", existingId: owned?.id };
+  }
+
+  const client = createClient(instance);
+  const identifiers: [ImportMatch["matchedBy"], string | undefined][] = [
+    ["isbn", target.isbn13 && `isbn:${target.isbn13}`],
+    ["goodreads", target.goodreadsId && `edition:${target.goodreadsId}`]
+  ];
+  for (const [matchedBy, term] of identifiers) {
+    if (!term) {
+      continue;
+    }
+    const [lookup] = await lookupBooks(client, term, 5);
+    if (lookup) {
+      return resolveImportMatch(library, lookup, matchedBy);
+    }
+  }
+
+  const title = target.title.replace(/\([^)]*\)|\[[^\]]*\]/g, " ").trim();
+  const results = await lookupBooks(client, `${title} ${target.author}`.trim(), 10);
+  const matches = results.filter((book) =>
+    pickMatchKeys(book).lookup.some((key) => keys.register.includes(key))
+  );
+  if (matches.length === 1) {
+    return resolveImportMatch(library, matches[0], "title");
+  }
+  const candidates = (matches.length ? matches : results).slice(0, 5);
+  return candidates.length
+    ? { status: "ambiguous", candidates: candidates.map(toImportCandidate) }
+    : { status: "not_found" };
+};
+
+const withOverrides = (
+  instance: InstanceConfig,
+  overrides: RequestOverrides = {}
+): InstanceConfig => ({
+  ...instance,
+  rootFolderPath: overrides.rootFolderPath || instance.rootFolderPath,
+  qualityProfileId: overrides.qualityProfileId || instance.qualityProfileId,
+  metadataProfileId: overrides.metadataProfileId || instance.metadataProfileId
+});
+
+export const existingRootFolderMessage =
+  "Books already in Readarr stay in their author's folder; pick a root folder for new ones.";
+
+const hasOverrides = (overrides?: RequestOverrides): boolean =>
+  Boolean(
+    overrides &&
+      (overrides.rootFolderPath ||
+        overrides.qualityProfileId ||
+        overrides.metadataProfileId ||
+        overrides.tags?.length)
+  );
+
+const monitorWithPut = async (
+  client: AxiosInstance,
+  existingId: number
+): Promise<void> => {
+  const existing = await client.get<ReadarrBook>(`/api/v1/book/${existingId}`);
+  await client.put("/api/v1/book", { ...existing.data, monitored: true });
+};
+
+// Readarr keeps profiles and tags on the author, so a book that is already in
+// the library takes its overrides through its author. The root folder cannot
+// change this way, as that would move every book of the author.
+const applyAuthorOverrides = async (
+  client: AxiosInstance,
+  existingId: number,
+  overrides: RequestOverrides
+): Promise<void> => {
+  if (overrides.rootFolderPath) {
+    throw new Error(existingRootFolderMessage);
+  }
+  const book = await client.get<ReadarrBook>(`/api/v1/book/${existingId}`);
+  const authorId = book.data?.authorId;
+  if (!authorId) {
+    throw new Error(`Readarr book ${existingId} has no author to apply the options to.`);
+  }
+  const author = await client.get<ReadarrAuthor>(`/api/v1/author/${authorId}`);
+  const tags = Array.isArray(author.data?.tags) ? (author.data.tags as number[]) : [];
+  await client.put(`/api/v1/author/${authorId}`, {
+    ...author.data,
+    qualityProfileId: overrides.qualityProfileId || author.data?.qualityProfileId,
+    metadataProfileId: overrides.metadataProfileId || author.data?.metadataProfileId,
+    tags: [...new Set([...tags, ...(overrides.tags || [])])]
+  });
+};
+
+const monitorEditions = (
+  editions: ReadarrEdition[],
+  editionId: string
+): ReadarrEdition[] => {
+  if (!editions.some((edition) => edition.foreignEditionId === editionId)) {
+    throw new Error("The chosen edition is not available for this book.");
+  }
+  return editions.map((edition) => ({
+    ...edition,
+    monitored: edition.foreignEditionId === editionId
+  }));
+};
+
+export const hasEdition = (book: ReadarrLookupBook, editionId: string): boolean =>
+  Boolean(book.editions?.some((edition) => edition.foreignEditionId === editionId));
+
+const selectExistingEdition = async (
+  client: AxiosInstance,
+  existingId: number,
+  editionId: string
+): Promise<void> => {
+  const [existing, editions] = await Promise.all([
+    client.get<ReadarrBook>(`/api/v1/book/${existingId}`),
+    fetchEditions(client, existingId)
+  ]);
+  await client.put("/api/v1/book", {
+    ...existing.data,
+    editions: monitorEditions(editions, editionId)
+  });
+};
+
 export const requestBook = async (
   instance: InstanceConfig,
   lookup: ReadarrLookupBook | undefined,
-  existingId?: number
-): Promise<void> => {
+  existingId?: number,
+  overrides?: RequestOverrides,
+  editionId?: string
+): Promise<RequestOutcome> => {
   const client = createClient(instance);
 
   if (existingId) {
-    let monitorSucceeded = false;
-    let searchSucceeded = false;
+    const previouslyMonitored = await client
+      .get<ReadarrBook>(`/api/v1/book/${existingId}`)
+      .then((response) => response.data?.monitored)
+      .catch((error) => {
+        logger.debug({ err: error }, "book_state_fetch_failed");
+        return undefined;
+      });
+    if (editionId) {
+      await selectExistingEdition(client, existingId, editionId);
+    }
+    const overridesApplied = hasOverrides(overrides);
+    if (overridesApplied) {
+      await applyAuthorOverrides(client, existingId, overrides!);
+    }
 
+    let putFallback = false;
     try {
       await client.post("/api/v1/book/monitor", {
         bookIds: [existingId],
         monitored: true
       });
-      monitorSucceeded = true;
     } catch (error) {
       logger.warn({ err: error }, "book_monitor_failed");
+      await monitorWithPut(client, existingId);
+      putFallback = true;
     }
-
-    try {
-      await client.post("/api/v1/command", {
-        name: "BookSearch",
-        bookIds: [existingId]
-      });
-      searchSucceeded = true;
-    } catch (error) {
-      logger.warn({ err: error }, "book_search_failed");
-    }
-
-    if (monitorSucceeded || searchSucceeded) {
-      return;
-    }
-
-    const existing = await client.get<ReadarrBook>(`/api/v1/book/${existingId}`);
-    const payload = {
-      ...existing.data,
-      monitored: true,
-      rootFolderPath: instance.rootFolderPath,
-      qualityProfileId: instance.qualityProfileId
-    } as Record<string, unknown>;
-
-    await client.put("/api/v1/book", payload);
-    return;
+    return {
+      action: "monitored",
+      bookId: existingId,
+      previouslyMonitored,
+      putFallback,
+      overridesApplied,
+      searchTriggered: false
+    };
   }
 
   if (!lookup) {
     throw new Error("Missing lookup data to add new book.");
   }
 
-  const rootFolderPath = instance.rootFolderPath?.trim();
-  const qualityProfileId = instance.qualityProfileId;
-  const defaults =
-    rootFolderPath && Number.isFinite(qualityProfileId)
-      ? { rootFolderPath, qualityProfileId: Number(qualityProfileId) }
-      : await resolveDefaults(instance);
+  const defaults = await resolveDefaults(withOverrides(instance, overrides));
+  const tags = overrides?.tags?.length ? { tags: overrides.tags } : {};
 
-  const addWithLookup = async (book: ReadarrLookupBook) => {
+  const addWithLookup = async (
+    book: ReadarrLookupBook,
+    source: RequestOutcome["lookup"]
+  ): Promise<RequestOutcome> => {
     const payload = {
       ...book,
-      rootFolderPath: defaults.rootFolderPath,
-      qualityProfileId: defaults.qualityProfileId,
+      author: book.author && {
+        ...book.author,
+        ...defaults,
+        ...tags
+      },
+      ...defaults,
+      ...tags,
       monitored: true,
       addOptions: {
         searchForNewBook: true
@@ -577,9 +1562,27 @@ export const requestBook = async (
 
     delete payload.id;
 
-    await client.post("/api/v1/book", payload);
+    const response = await client.post<ReadarrBook>("/api/v1/book", payload);
+    return {
+      action: "added",
+      bookId: response.data?.id,
+      lookup: source,
+      putFallback: false,
+      overridesApplied: hasOverrides(overrides),
+      searchTriggered: true
+    };
   };
 
+  if (editionId) {
+    return addWithLookup(
+      {
+        ...lookup,
+        editions: monitorEditions(lookup.editions || [], editionId)
+      },
+      "original"
+    );
+  }
+
   let resolvedLookup = lookup;
   try {
     resolvedLookup = await resolveLookupForAdd(instance, lookup);
@@ -588,15 +1591,170 @@ export const requestBook = async (
   }
 
   try {
-    await addWithLookup(resolvedLookup);
-    return;
+    return await addWithLookup(
+      resolvedLookup,
+      resolvedLookup === lookup ? "original" : "resolved"
+    );
   } catch (error) {
+    if (resolvedLookup === lookup) {
+      throw error;
+    }
     logger.warn({ err: error }, "book_add_failed");
   }
+  return addWithLookup(lookup, "original");
+};
+
+export type ReadarrCommand = {
+  name: string;
+  [key: string]: unknown;
+};
 
-  if (resolvedLookup !== lookup) {
-    await addWithLookup(lookup);
+export const sendCommand = async (
+  instance: InstanceConfig,
+  command: ReadarrCommand
+): Promise<void> => {
+  await createClient(instance).post("/api/v1/command", command);
+};
+
+export const followAuthor = async (
+  instance: InstanceConfig,
+  lookup: ReadarrAuthor | undefined,
+  existingId: number | undefined,
+  monitor: FollowMonitor
+): Promise<number | undefined> => {
+  const client = createClient(instance);
+  const monitorNewItems = monitor === "none" ? "none" : "all";
+  const searchForMissingBooks = monitor === "missing" || monitor === "all";
+
+  if (existingId) {
+    const existing = await client.get<ReadarrAuthor>(`/api/v1/author/${existingId}`);
+    await client.put("/api/v1/author", {
+      ...existing.data,
+      monitored: true,
+      monitorNewItems
+    });
+    // addOptions only apply when an author is added, so monitor the books an
+    // existing author already has ourselves before the search runs.
+    if (searchForMissingBooks) {
+      const books = await client.get<ReadarrBook[]>("/api/v1/book", {
+        params: { authorId: existingId }
+      });
+      const bookIds = (books.data || [])
+        .filter((book) => book.id && !book.monitored)
+        .filter((book) => monitor === "all" || !hasFile(book))
+        .map((book) => book.id as number);
+      if (bookIds.length) {
+        await client.post("/api/v1/book/monitor", { bookIds, monitored: true });
+      }
+    }
+    return existingId;
   }
+
+  if (!lookup) {
+    throw new Error("Missing lookup data to add the author.");
+  }
+
+  const defaults = await resolveDefaults(instance);
+  const payload = {
+    ...stripAuthorBooks(lookup),
+    ...defaults,
+    monitored: true,
+    monitorNewItems,
+    addOptions: {
+      monitor,
+      searchForMissingBooks
+    }
+  } as Record<string, unknown>;
+
+  delete payload.id;
+
+  const response = await client.post<ReadarrAuthor>("/api/v1/author", payload);
+  return response.data?.id;
+};
+
+export const fetchQueue = async (
+  instance: InstanceConfig
+): Promise<ReadarrQueueItem[]> => {
+  const client = createClient(instance);
+  const response = await client.get<{ records?: ReadarrQueueItem[] }>(
+    "/api/v1/queue",
+    { params: { page: 1, pageSize: 500, includeUnknownAuthorItems: false } }
+  );
+  return response.data?.records || [];
+};
+
+export const fetchBook = async (
+  instance: InstanceConfig,
+  bookId: number
+): Promise<ReadarrBook | null> => {
+  const client = createClient(instance);
+  try {
+    const response = await client.get<ReadarrBook>(`/api/v1/book/${bookId}`);
+    return response.data;
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response?.status === 404) {
+      return null;
+    }
+    throw error;
+  }
+};
+
+// Undoes a request: drops its downloads, then deletes a book we added that has
+// no file yet, or puts monitoring back the way it was before.
+export const withdrawBook = async (
+  instance: InstanceConfig,
+  bookId: number,
+  outcome?: RequestOutcome
+): Promise<RequestWithdrawal> => {
+  const client = createClient(instance);
+  const downloads = (await fetchQueue(instance)).filter(
+    (item) => item.bookId === bookId && item.id
+  );
+  for (const item of downloads) {
+    await client.delete(`/api/v1/queue/${item.id}`, {
+      params: { removeFromClient: true, blocklist: false }
+    });
+  }
+
+  const result = { downloadsRemoved: downloads.length };
+  const book = await fetchBook(instance, bookId);
+  if (!book || !outcome) {
+    return { ...result, book: "unchanged" };
+  }
+  if (outcome.action === "added" && !hasFile(book)) {
+    await client.delete(`/api/v1/book/${bookId}`, { params: { deleteFiles: false } });
+    return { ...result, book: "deleted" };
+  }
+  if (
+    book.monitored &&
+    (outcome.action === "added" || outcome.previouslyMonitored === false)
+  ) {
+    await client.post("/api/v1/book/monitor", { bookIds: [bookId], monitored: false });
+    return { ...result, book: "unmonitored" };
+  }
+  return { ...result, book: "unchanged" };
+};
+
+export const fetchBookHistory = async (
+  instance: InstanceConfig,
+  bookId: number
+): Promise<ReadarrHistoryRecord[]> => {
+  const client = createClient(instance);
+  const response = await client.get<{ records?: ReadarrHistoryRecord[] }>(
+    "/api/v1/history",
+    {
+      params: {
+        bookId,
+        page: 1,
+        pageSize: 20,
+        sortKey: "date",
+        sortDirection: "descending"
+      }
+    }
+  );
+  return (response.data?.records || []).filter(
+    (record) => record.bookId == null || record.bookId === bookId
+  );
 };
 
 export const testConnection = async (
@@ -0,0 +1,150 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { fileURLToPath } from "node:url";
+
+// The stores resolve data/ from INIT_CWD when they load, so point it at a
+// scratch directory before importing them.
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "webhook-test-"));
+process.env.INIT_CWD = dataDir;
+
+const { WebhookError, parseReadarrWebhook } = await import("./readarrWebhook.js");
+const { applyWebhookEvent } = await import("./requestTracker.js");
+const { addRequest, getRequest } = await import("./requestStore.js");
+
+const fixturesDir = path.join(
+  path.dirname(fileURLToPath(import.meta.url)),
+  "__fixtures__",
+  "webhooks"
+);
+
+const fixture = (name: string): unknown =>
+  JSON.parse(fs.readFileSync(path.join(fixturesDir, `${name}.json`), "utf8"));
+
+const submitted = (changes: { bookId?: number; foreignBookId?: string }) =>
+  addRequest({
+    userId: "user-1",
+    username: "reader",
+    instance: "ebooks",
+    title: "The Hobbit",
+    author: "J.R.R. Tolkien",
+    status: "submitted",
+    stage: "searching",
+    ...changes
+  });
+
+after(() => fs.rmSync(dataDir, { recursive: true, force: true }));
+
+describe("parseReadarrWebhook", () => {
+  it("parses the Test event", () => {
+    const event = parseReadarrWebhook(fixture("test"));
+    assert.equal(event.type, "test");
+    assert.equal(event.eventType, "Test");
+    assert.equal(event.authorId, 1);
+    assert.deepEqual(event.books, [
+      { id: 123, foreignBookId: undefined, title: "Test title" }
+    ]);
+  });
+
+  it("parses a Grab with books and release", () => {
+    const event = parseReadarrWebhook(fixture("grab"));
+    assert.equal(event.type, "grab");
+    assert.equal(event.authorId, 5);
+    assert.equal(event.releaseTitle, "J.R.R. Tolkien - The Hobbit (retail) (epub)");
+    assert.deepEqual(event.books, [
+      { id: 42, foreignBookId: "5907", title: "The Hobbit" }
+    ]);
+  });
+
+  it("parses a Download with a single book and its files", () => {
+    const event = parseReadarrWebhook(fixture("download"));
+    assert.equal(event.type, "download");
+    assert.equal(event.isUpgrade, false);
+    assert.deepEqual(event.books, [
+      { id: 42, foreignBookId: "5907", title: "The Hobbit" }
+    ]);
+  });
+
+  it("parses a Rename without books", () => {
+    const event = parseReadarrWebhook(fixture("rename"));
+    assert.equal(event.type, "rename");
+    assert.deepEqual(event.books, []);
+  });
+
+  it("keeps unknown events as other", () => {
+    const event = parseReadarrWebhook(fixture("author-delete"));
+    assert.equal(event.type, "other");
+    assert.equal(event.eventType, "AuthorDelete");
+    assert.equal(event.authorId, 7);
+  });
+
+  it("rejects payloads that are not events", () => {
+    assert.throws(() => parseReadarrWebhook([]), WebhookError);
+    assert.throws(() => parseReadarrWebhook({ books: [] }), WebhookError);
+  });
+});
+
+describe("applyWebhookEvent", () => {
+  let byId: Awaited<ReturnType<typeof submitted>>;
+  let byForeignId: Awaited<ReturnType<typeof submitted>>;
+  let unrelated: Awaited<ReturnType<typeof submitted>>;
+
+  before(async () => {
+    byId = await submitted({ bookId: 42, foreignBookId: "other-edition" });
+    byForeignId = await submitted({ foreignBookId: "5907" });
+    unrelated = await submitted({ bookId: 7, foreignBookId: "15241" });
+  });
+
+  it("ignores Test and unknown events", async () => {
+    assert.equal(await applyWebhookEvent("ebooks", parseReadarrWebhook(fixture("test"))), 0);
+    assert.equal(
+      await applyWebhookEvent("ebooks", parseReadarrWebhook(fixture("author-delete"))),
+      0
+    );
+    assert.equal(getRequest(byId.id)?.stage, "searching");
+  });
+
+  it("ignores events for another instance", async () => {
+    assert.equal(await applyWebhookEvent("audio", parseReadarrWebhook(fixture("grab"))), 0);
+  });
+
+  it("moves Grab matches by id and foreignBookId to grabbed", async () => {
+    const matched = await applyWebhookEvent("ebooks", parseReadarrWebhook(fixture("grab")));
+    assert.equal(matched, 2);
+
+    const first = getRequest(byId.id);
+    assert.equal(first?.stage, "grabbed");
+    assert.equal(first?.stageMessage, "J.R.R. Tolkien - The Hobbit (retail) (epub)");
+    assert.equal(getRequest(byForeignId.id)?.stage, "grabbed");
+    assert.equal(getRequest(unrelated.id)?.stage, "searching");
+  });
+
+  it("backfills the Readarr book id of foreignBookId matches", () => {
+    assert.equal(getRequest(byForeignId.id)?.bookId, 42);
+    assert.equal(getRequest(byId.id)?.bookId, 42);
+  });
+
+  it("marks Download matches imported", async () => {
+    const matched = await applyWebhookEvent(
+      "ebooks",
+      parseReadarrWebhook(fixture("download"))
+    );
+    assert.equal(matched, 2);
+    assert.equal(getRequest(byId.id)?.stage, "imported");
+    assert.equal(getRequest(byId.id)?.progress, 100);
+    assert.equal(getRequest(byForeignId.id)?.stage, "imported");
+  });
+
+  it("leaves imported requests alone on later events", async () => {
+    assert.equal(await applyWebhookEvent("ebooks", parseReadarrWebhook(fixture("grab"))), 0);
+  });
+
+  it("answers Rename with a tracker refresh and no direct matches", async () => {
+    assert.equal(
+      await applyWebhookEvent("ebooks", parseReadarrWebhook(fixture("rename"))),
+      0
+    );
+  });
+});
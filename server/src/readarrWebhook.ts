@@ -0,0 +1,91 @@
+export type WebhookEventType = "test" | "grab" | "download" | "rename" | "other";
+
+export type WebhookBook = {
+  id?: number;
+  foreignBookId?: string;
+  title?: string;
+};
+
+export type WebhookEvent = {
+  type: WebhookEventType;
+  eventType: string;
+  authorId?: number;
+  books: WebhookBook[];
+  isUpgrade?: boolean;
+  releaseTitle?: string;
+};
+
+type RawBook = {
+  id?: number | string;
+  foreignBookId?: string | number;
+  goodreadsId?: string | number;
+  title?: string;
+};
+
+type RawPayload = {
+  eventType?: string;
+  author?: { id?: number | string };
+  book?: RawBook;
+  books?: RawBook[];
+  isUpgrade?: boolean;
+  release?: { releaseTitle?: string };
+};
+
+export class WebhookError extends Error {
+  status: number;
+
+  constructor(message: string) {
+    super(message);
+    this.status = 400;
+  }
+}
+
+const eventTypes: Record<string, WebhookEventType> = {
+  test: "test",
+  grab: "grab",
+  download: "download",
+  rename: "rename"
+};
+
+const toId = (value: unknown): number | undefined => {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : undefined;
+};
+
+const toBook = (raw: RawBook): WebhookBook => {
+  const foreignBookId = raw.foreignBookId ?? raw.goodreadsId;
+  return {
+    id: toId(raw.id),
+    foreignBookId:
+      foreignBookId != null && String(foreignBookId).trim()
+        ? String(foreignBookId).trim()
+        : undefined,
+    title: raw.title
+  };
+};
+
+export const parseReadarrWebhook = (body: unknown): WebhookEvent => {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    throw new WebhookError("Webhook payload must be a JSON object.");
+  }
+
+  const payload = body as RawPayload;
+  const eventType = String(payload.eventType || "").trim();
+  if (!eventType) {
+    throw new WebhookError("Webhook payload is missing eventType.");
+  }
+
+  const rawBooks = [
+    ...(Array.isArray(payload.books) ? payload.books : []),
+    ...(payload.book && typeof payload.book === "object" ? [payload.book] : [])
+  ];
+
+  return {
+    type: eventTypes[eventType.toLowerCase()] || "other",
+    eventType,
+    authorId: toId(payload.author?.id),
+    books: rawBooks.map(toBook).filter((book) => book.id || book.foreignBookId),
+    isUpgrade: payload.isUpgrade,
+    releaseTitle: payload.release?.releaseTitle
+  };
+};
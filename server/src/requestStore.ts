@@ -0,0 +1,179 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { logger } from "./logger.js";
+import type { ReadarrLookupBook, RequestOutcome, RequestOverrides } from "./types.js";
+
+export type RequestStatus =
+  | "pending"
+  | "rejected"
+  | "queued"
+  | "submitted"
+  | "failed"
+  | "cancelled";
+
+export type TrackingStage =
+  | "searching"
+  | "grabbed"
+  | "downloading"
+  | "imported"
+  | "failed";
+
+export type RequestPayload = {
+  book?: ReadarrLookupBook;
+  existingId?: number;
+  editionId?: string;
+};
+
+export type RequestRecord = {
+  id: string;
+  userId: string;
+  username: string;
+  instance: string;
+  groupId?: string;
+  itemKey?: string;
+  title: string;
+  author: string;
+  isbn13?: string;
+  foreignBookId?: string;
+  goodreadsId?: string;
+  overrides?: RequestOverrides;
+  status: RequestStatus;
+  error?: string;
+  payload?: RequestPayload;
+  reviewedBy?: string;
+  reviewedAt?: string;
+  rejectionReason?: string;
+  cancelledBy?: string;
+  cancelledAt?: string;
+  bookId?: number;
+  outcome?: RequestOutcome;
+  stage?: TrackingStage;
+  progress?: number;
+  stageMessage?: string;
+  trackedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type RequestRecordInput = Omit<
+  RequestRecord,
+  "id" | "createdAt" | "updatedAt"
+>;
+
+export type RequestQuery = {
+  ids?: string[];
+  userId?: string;
+  status?: RequestStatus;
+  instance?: string;
+  text?: string;
+  page: number;
+  pageSize: number;
+};
+
+export type RequestPage = {
+  items: RequestRecord[];
+  total: number;
+  page: number;
+  pageSize: number;
+};
+
+const baseDir = process.env.INIT_CWD || process.cwd();
+const requestsPath = path.resolve(baseDir, "data", "requests.json");
+let cached: RequestRecord[] | null = null;
+let writeChain: Promise<void> = Promise.resolve();
+
+const loadFromFile = (): RequestRecord[] => {
+  if (!fs.existsSync(requestsPath)) {
+    return [];
+  }
+
+  try {
+    const raw = fs.readFileSync(requestsPath, "utf8");
+    const parsed = JSON.parse(raw) as { requests?: RequestRecord[] };
+    return parsed.requests || [];
+  } catch (error) {
+    logger.error({ err: error }, "requests_load_failed");
+    return [];
+  }
+};
+
+const getRecords = (): RequestRecord[] => {
+  if (!cached) {
+    cached = loadFromFile();
+  }
+  return cached;
+};
+
+// Writes are chained so concurrent requests never interleave partial files.
+const persist = (): Promise<void> => {
+  const write = async () => {
+    const payload = JSON.stringify({ requests: getRecords() }, null, 2);
+    await fs.promises.mkdir(path.dirname(requestsPath), { recursive: true });
+    await fs.promises.writeFile(`${requestsPath}.tmp`, payload, "utf8");
+    await fs.promises.rename(`${requestsPath}.tmp`, requestsPath);
+  };
+  writeChain = writeChain.then(write, write);
+  return writeChain;
+};
+
+export const addRequest = async (
+  input: RequestRecordInput
+): Promise<RequestRecord> => {
+  const now = new Date().toISOString();
+  const record: RequestRecord = {
+    id: crypto.randomUUID(),
+    ...input,
+    createdAt: now,
+    updatedAt: now
+  };
+  getRecords().push(record);
+  await persist();
+  return record;
+};
+
+export const getRequest = (id: string): RequestRecord | undefined =>
+  getRecords().find((record) => record.id === id);
+
+export const updateRequest = async (
+  id: string,
+  changes: Partial<Omit<RequestRecord, "id" | "createdAt">>
+): Promise<RequestRecord | undefined> => {
+  const record = getRequest(id);
+  if (!record) {
+    return undefined;
+  }
+  Object.assign(record, changes, { updatedAt: new Date().toISOString() });
+  await persist();
+  return record;
+};
+
+export const listRequests = (
+  predicate: (record: RequestRecord) => boolean
+): RequestRecord[] => getRecords().filter(predicate);
+
+export const queryRequests = (query: RequestQuery): RequestPage => {
+  const text = query.text?.trim().toLowerCase();
+  const filtered = getRecords()
+    .filter((record) => !query.ids || query.ids.includes(record.id))
+    .filter((record) => !query.userId || record.userId === query.userId)
+    .filter((record) => !query.status || record.status === query.status)
+    .filter((record) => !query.instance || record.instance === query.instance)
+    .filter(
+      (record) =>
+        !text ||
+        record.title.toLowerCase().includes(text) ||
+        record.author.toLowerCase().includes(text) ||
+        record.username.includes(text) ||
+        (record.isbn13 || "").includes(text)
+    )
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+  const start = (query.page - 1) * query.pageSize;
+  return {
+    items: filtered.slice(start, start + query.pageSize),
+    total: filtered.length,
+    page: query.page,
+    pageSize: query.pageSize
+  };
+};
@@ -0,0 +1,248 @@
+import { config } from "./config.js";
+import { logger } from "./logger.js";
+import { notify } from "./notifications.js";
+import {
+  fetchBook,
+  fetchBookHistory,
+  fetchQueue,
+  hasFile
+} from "./readarrClient.js";
+import type { WebhookBook, WebhookEvent } from "./readarrWebhook.js";
+import type { RequestRecord, TrackingStage } from "./requestStore.js";
+import { listRequests, updateRequest } from "./requestStore.js";
+import type { InstanceSettings } from "./settingsStore.js";
+import { getSettings } from "./settingsStore.js";
+import type { ReadarrHistoryRecord, ReadarrQueueItem } from "./types.js";
+
+type TrackingUpdate = {
+  stage: TrackingStage;
+  progress?: number;
+  stageMessage?: string;
+};
+
+const activeStages: TrackingStage[] = ["searching", "grabbed", "downloading"];
+const failedHistoryEvents = [
+  "downloadFailed",
+  "bookImportIncomplete",
+  "downloadIgnored"
+];
+const importedHistoryEvents = ["bookFileImported", "downloadImported"];
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+
+export const isTrackable = (record: RequestRecord): boolean =>
+  record.status === "submitted" &&
+  record.bookId != null &&
+  activeStages.includes(record.stage || "searching");
+
+const queueMessage = (item: ReadarrQueueItem): string | undefined => {
+  if (item.errorMessage) {
+    return item.errorMessage;
+  }
+  const messages = (item.statusMessages || []).flatMap(
+    (entry) => entry.messages || []
+  );
+  return messages[0];
+};
+
+// Readarr reports "warning" for stalled downloads and clients it cannot reach
+// right now; those can still recover, so they stay in downloading.
+const fromQueue = (item: ReadarrQueueItem): TrackingUpdate => {
+  if (
+    (item.status || "").toLowerCase() === "failed" ||
+    (item.trackedDownloadStatus || "").toLowerCase() === "error"
+  ) {
+    return { stage: "failed", stageMessage: queueMessage(item) };
+  }
+
+  const size = item.size ?? 0;
+  const left = item.sizeleft ?? 0;
+  const progress =
+    size > 0 ? Math.min(100, Math.max(0, Math.round(((size - left) / size) * 100))) : 0;
+  return { stage: "downloading", progress, stageMessage: queueMessage(item) };
+};
+
+const fromHistory = (
+  records: ReadarrHistoryRecord[]
+): TrackingUpdate | null => {
+  const latest = records[0];
+  if (!latest?.eventType) {
+    return null;
+  }
+  if (failedHistoryEvents.includes(latest.eventType)) {
+    return {
+      stage: "failed",
+      stageMessage: latest.data?.message || latest.sourceTitle
+    };
+  }
+  if (importedHistoryEvents.includes(latest.eventType)) {
+    return { stage: "imported", progress: 100 };
+  }
+  if (latest.eventType === "grabbed") {
+    return { stage: "grabbed", stageMessage: latest.sourceTitle };
+  }
+  return null;
+};
+
+const resolveStage = async (
+  instance: InstanceSettings,
+  bookId: number,
+  queue: ReadarrQueueItem[]
+): Promise<TrackingUpdate> => {
+  const queued = queue.find((item) => item.bookId === bookId);
+  if (queued) {
+    return fromQueue(queued);
+  }
+
+  const book = await fetchBook(instance, bookId);
+  if (!book) {
+    return { stage: "failed", stageMessage: "The book was removed from Readarr." };
+  }
+  if (hasFile(book)) {
+    return { stage: "imported", progress: 100 };
+  }
+
+  const history = await fetchBookHistory(instance, bookId);
+  return fromHistory(history) || { stage: "searching" };
+};
+
+const applyUpdate = async (
+  record: RequestRecord,
+  update: TrackingUpdate
+): Promise<void> => {
+  const changed =
+    record.stage !== update.stage ||
+    record.progress !== update.progress ||
+    record.stageMessage !== update.stageMessage;
+
+  if (!changed) {
+    return;
+  }
+
+  const stageChanged = record.stage !== update.stage;
+  const updated = await updateRequest(record.id, {
+    stage: update.stage,
+    progress: update.progress,
+    stageMessage: update.stageMessage,
+    trackedAt: new Date().toISOString()
+  });
+  logger.info(
+    { requestId: record.id, bookId: record.bookId, stage: update.stage },
+    "request_stage_changed"
+  );
+
+  if (updated && stageChanged && update.stage === "imported") {
+    notify("request.imported", updated);
+  } else if (updated && stageChanged && update.stage === "failed") {
+    notify("request.failed", updated);
+  }
+};
+
+const trackInstance = async (
+  instance: InstanceSettings,
+  records: RequestRecord[]
+): Promise<void> => {
+  const queue = await fetchQueue(instance);
+  for (const record of records) {
+    try {
+      const update = await resolveStage(instance, record.bookId!, queue);
+      await applyUpdate(record, update);
+    } catch (error) {
+      logger.warn(
+        { err: error, requestId: record.id, instance: instance.id },
+        "request_tracking_failed"
+      );
+    }
+  }
+};
+
+export const refreshTracking = async (only?: string): Promise<void> => {
+  const state = getSettings();
+  if (!state.configured || !state.settings || running) {
+    return;
+  }
+
+  running = true;
+  try {
+    const instances = state.settings.instances.filter(
+      (instance) => !only || instance.id === only
+    );
+    for (const instance of instances) {
+      const records = listRequests(
+        (record) => record.instance === instance.id && isTrackable(record)
+      );
+      if (!records.length) {
+        continue;
+      }
+      try {
+        await trackInstance(instance, records);
+      } catch (error) {
+        logger.warn({ err: error, instance: instance.id }, "queue_fetch_failed");
+      }
+    }
+  } finally {
+    running = false;
+  }
+};
+
+const matchesWebhookBook = (
+  record: RequestRecord,
+  books: WebhookBook[]
+): boolean =>
+  books.some(
+    (book) =>
+      (book.id != null && record.bookId === book.id) ||
+      (book.foreignBookId != null && record.foreignBookId === book.foreignBookId)
+  );
+
+export const applyWebhookEvent = async (
+  key: string,
+  event: WebhookEvent
+): Promise<number> => {
+  if (event.type === "rename") {
+    await refreshTracking(key);
+    return 0;
+  }
+
+  let update: TrackingUpdate | null = null;
+  if (event.type === "grab") {
+    update = { stage: "grabbed", stageMessage: event.releaseTitle };
+  } else if (event.type === "download") {
+    update = { stage: "imported", progress: 100 };
+  }
+  if (!update || !event.books.length) {
+    return 0;
+  }
+
+  const records = listRequests(
+    (record) =>
+      record.instance === key &&
+      record.status === "submitted" &&
+      record.stage !== "imported" &&
+      matchesWebhookBook(record, event.books)
+  );
+
+  for (const record of records) {
+    if (record.bookId == null) {
+      const match = event.books.find(
+        (book) => book.foreignBookId === record.foreignBookId && book.id
+      );
+      if (match?.id) {
+        await updateRequest(record.id, { bookId: match.id });
+      }
+    }
+    await applyUpdate(record, update);
+  }
+  return records.length;
+};
+
+export const startRequestTracker = (): void => {
+  if (timer || config.trackerIntervalSeconds <= 0) {
+    return;
+  }
+  timer = setInterval(() => {
+    void refreshTracking();
+  }, config.trackerIntervalSeconds * 1000);
+  timer.unref();
+};
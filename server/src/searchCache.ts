@@ -0,0 +1,97 @@
+import { config } from "./config.js";
+import type { ReadarrAuthor, ReadarrLookupBook } from "./types.js";
+
+export type CachedLookup = {
+  books: ReadarrLookupBook[];
+  authors: ReadarrAuthor[];
+};
+
+type CacheEntry = {
+  instanceId: string;
+  lookup: CachedLookup;
+  keys: Set<string>;
+  expiresAt: number;
+};
+
+export type SearchCacheStats = {
+  size: number;
+  maxEntries: number;
+  ttlSeconds: number;
+  hits: number;
+  misses: number;
+};
+
+const entries = new Map<string, CacheEntry>();
+let hits = 0;
+let misses = 0;
+
+const enabled = (): boolean =>
+  config.searchCacheTtlSeconds > 0 && config.searchCacheMaxEntries > 0;
+
+const cacheKey = (instanceId: string, term: string): string =>
+  `${instanceId}\n${term.trim().toLowerCase().replace(/\s+/g, " ")}`;
+
+export const getCachedLookup = (
+  instanceId: string,
+  term: string
+): CachedLookup | undefined => {
+  if (!enabled()) {
+    return undefined;
+  }
+  const key = cacheKey(instanceId, term);
+  const entry = entries.get(key);
+  if (!entry || entry.expiresAt <= Date.now()) {
+    entries.delete(key);
+    misses += 1;
+    return undefined;
+  }
+  entries.delete(key);
+  entries.set(key, entry);
+  hits += 1;
+  return entry.lookup;
+};
+
+export const setCachedLookup = (
+  instanceId: string,
+  term: string,
+  lookup: CachedLookup,
+  keys: string[]
+): void => {
+  if (!enabled()) {
+    return;
+  }
+  const key = cacheKey(instanceId, term);
+  entries.delete(key);
+  entries.set(key, {
+    instanceId,
+    lookup,
+    keys: new Set(keys),
+    expiresAt: Date.now() + config.searchCacheTtlSeconds * 1000
+  });
+  while (entries.size > config.searchCacheMaxEntries) {
+    entries.delete(entries.keys().next().value!);
+  }
+};
+
+export const invalidateCachedLookups = (instanceId: string, keys: string[]): number => {
+  let removed = 0;
+  for (const [key, entry] of entries) {
+    if (entry.instanceId === instanceId && keys.some((match) => entry.keys.has(match))) {
+      entries.delete(key);
+      removed += 1;
+    }
+  }
+  return removed;
+};
+
+export const clearSearchCache = (): void => {
+  entries.clear();
+};
+
+export const getSearchCacheStats = (): SearchCacheStats => ({
+  size: entries.size,
+  maxEntries: config.searchCacheMaxEntries,
+  ttlSeconds: config.searchCacheTtlSeconds,
+  hits,
+  misses
+});
@@ -0,0 +1,133 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  QueryError,
+  formatSearchQuery,
+  parseSearchQuery,
+  resolveSearchQuery
+} from "./searchQuery.js";
+
+const rejects = (input: string, message: RegExp) =>
+  assert.throws(
+    () => parseSearchQuery(input),
+    (error: unknown) => error instanceof QueryError && message.test(error.message)
+  );
+
+describe("parseSearchQuery", () => {
+  it("keeps plain words as free text", () => {
+    assert.deepEqual(parseSearchQuery("the  hobbit"), {
+      text: ["the", "hobbit"],
+      phrases: [],
+      fields: {}
+    });
+  });
+
+  for (const [input, field, value] of [
+    ["author:tolkien", "author", "tolkien"],
+    ["title:hobbit", "title", "hobbit"],
+    ["isbn:0-618-96863-6", "isbn", "9780618968633"],
+    ["asin:b007978nu6", "asin", "B007978NU6"],
+    ["goodreads:5907", "goodreads", "5907"],
+    ["series:discworld", "series", "discworld"],
+    ["AUTHOR:Tolkien", "author", "Tolkien"]
+  ] as const) {
+    it(`reads the ${field} prefix from ${input}`, () => {
+      assert.deepEqual(parseSearchQuery(input).fields, { [field]: value });
+    });
+  }
+
+  it("reads quoted field values", () => {
+    const query = parseSearchQuery('author:"j. r. r. tolkien" title:"the two towers" rings');
+    assert.deepEqual(query.fields, {
+      author: "j. r. r. tolkien",
+      title: "the two towers"
+    });
+    assert.deepEqual(query.text, ["rings"]);
+  });
+
+  it("reads bare quoted phrases", () => {
+    const query = parseSearchQuery('"there and back again" hobbit ""');
+    assert.deepEqual(query.phrases, ["there and back again"]);
+    assert.deepEqual(query.text, ["hobbit"]);
+  });
+
+  it("rejects an unclosed quote", () => {
+    rejects('"there and back', /Missing closing quote for "there and back"/);
+    rejects('title:"the hobbit', /Missing closing quote for "the hobbit"/);
+  });
+
+  it("rejects an empty field", () => {
+    rejects("author:", /author: needs a value/);
+    rejects('title:"" hobbit', /title: needs a value/);
+  });
+
+  it("rejects a repeated field", () => {
+    rejects("author:tolkien author:lewis", /author: can only be used once/);
+  });
+
+  it("rejects a bad ISBN", () => {
+    rejects("isbn:9780618968634", /isbn: expects a valid ISBN-10 or ISBN-13/);
+    rejects("isbn:12345", /isbn: expects a valid ISBN/);
+  });
+
+  it("rejects malformed asin and goodreads values", () => {
+    rejects("asin:B00", /asin: expects 10 letters or digits/);
+    rejects("goodreads:the-hobbit", /goodreads: expects a numeric id/);
+  });
+
+  it("keeps words with unknown prefixes as free text", () => {
+    assert.deepEqual(parseSearchQuery("re:zero").text, ["re:zero"]);
+    assert.deepEqual(parseSearchQuery("C:\\path").text, ["C:\\path"]);
+    assert.deepEqual(parseSearchQuery(":author").text, [":author"]);
+  });
+
+  it("rejects an empty search", () => {
+    rejects("   ", /Missing search term/);
+  });
+});
+
+describe("resolveSearchQuery", () => {
+  it("turns a bare ISBN-10 or ISBN-13 into an isbn search", async () => {
+    for (const input of ["0618968636", "978-0-618-96863-3"]) {
+      assert.deepEqual((await resolveSearchQuery(input)).fields, {
+        isbn: "9780618968633"
+      });
+    }
+  });
+
+  it("explains a bare ISBN-13 with a wrong check digit", async () => {
+    await assert.rejects(resolveSearchQuery("9780618968634"), /check digit is wrong/);
+  });
+
+  it("turns supported links into identifier searches", async () => {
+    assert.deepEqual(
+      (await resolveSearchQuery("https://www.goodreads.com/book/show/5907.The_Hobbit"))
+        .fields,
+      { goodreads: "5907" }
+    );
+  });
+
+  it("rejects unsupported links", async () => {
+    await assert.rejects(
+      resolveSearchQuery("https://example.com/books/1"),
+      /Only Goodreads, Amazon, Audible, OpenLibrary and Google Books/
+    );
+  });
+
+  it("falls back to the query parser", async () => {
+    assert.deepEqual(await resolveSearchQuery(' author:tolkien "the hobbit" '), {
+      text: [],
+      phrases: ["the hobbit"],
+      fields: { author: "tolkien" }
+    });
+  });
+});
+
+describe("formatSearchQuery", () => {
+  it("writes fields in a stable order", () => {
+    assert.equal(
+      formatSearchQuery(parseSearchQuery('hobbit title:"There" author:Tolkien')),
+      'author:"tolkien" title:"there" hobbit'
+    );
+  });
+});
@@ -0,0 +1,188 @@
+import {
+  fetchIdentifierIsbn,
+  isUrl,
+  looksLikeIsbn13,
+  normalizeIsbn,
+  parseIdentifierUrl
+} from "./identifiers.js";
+
+export const queryFields = [
+  "author",
+  "title",
+  "isbn",
+  "asin",
+  "goodreads",
+  "series"
+] as const;
+
+export type QueryField = (typeof queryFields)[number];
+
+export type SearchQuery = {
+  text: string[];
+  phrases: string[];
+  fields: Partial<Record<QueryField, string>>;
+};
+
+export class QueryError extends Error {
+  status: number;
+
+  constructor(message: string) {
+    super(message);
+    this.status = 400;
+  }
+}
+
+const isQueryField = (value: string): value is QueryField =>
+  (queryFields as readonly string[]).includes(value);
+
+export const normalizeText = (value: string | undefined): string =>
+  String(value ?? "")
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+
+const validateField = (field: QueryField, value: string): string => {
+  if (field === "isbn") {
+    const isbn = normalizeIsbn(value);
+    if (!isbn) {
+      throw new QueryError(
+        `isbn: expects a valid ISBN-10 or ISBN-13, got "${value}" (check the digits).`
+      );
+    }
+    return isbn;
+  }
+  if (field === "asin") {
+    const asin = value.toUpperCase();
+    if (!/^[A-Z0-9]{10}$/.test(asin)) {
+      throw new QueryError(`asin: expects 10 letters or digits, got "${value}".`);
+    }
+    return asin;
+  }
+  if (field === "goodreads" && !/^\d+$/.test(value)) {
+    throw new QueryError(`goodreads: expects a numeric id, got "${value}".`);
+  }
+  return value;
+};
+
+const readQuoted = (input: string, start: number): [string, number] => {
+  const end = input.indexOf('"', start + 1);
+  if (end === -1) {
+    throw new QueryError(
+      `Missing closing quote for "${input.slice(start + 1).trim()}".`
+    );
+  }
+  return [input.slice(start + 1, end).trim(), end + 1];
+};
+
+const readWord = (input: string, start: number): [string, number] => {
+  let end = start;
+  while (end < input.length && !/\s/.test(input[end])) {
+    end += 1;
+  }
+  return [input.slice(start, end), end];
+};
+
+export const parseSearchQuery = (input: string): SearchQuery => {
+  const query: SearchQuery = { text: [], phrases: [], fields: {} };
+  let position = 0;
+
+  while (position < input.length) {
+    if (/\s/.test(input[position])) {
+      position += 1;
+      continue;
+    }
+
+    if (input[position] === '"') {
+      const [phrase, next] = readQuoted(input, position);
+      if (phrase) {
+        query.phrases.push(phrase);
+      }
+      position = next;
+      continue;
+    }
+
+    const [word, next] = readWord(input, position);
+    const colon = word.indexOf(":");
+    const name = colon > 0 ? word.slice(0, colon).toLowerCase() : "";
+    if (!isQueryField(name)) {
+      query.text.push(word);
+      position = next;
+      continue;
+    }
+
+    const valueStart = position + colon + 1;
+    const [value, end] =
+      input[valueStart] === '"'
+        ? readQuoted(input, valueStart)
+        : readWord(input, valueStart);
+    position = end;
+    if (!value) {
+      throw new QueryError(`${name}: needs a value, e.g. ${name}:"some words".`);
+    }
+    if (query.fields[name]) {
+      throw new QueryError(`${name}: can only be used once per search.`);
+    }
+    query.fields[name] = validateField(name, value);
+  }
+
+  if (!query.text.length && !query.phrases.length && !Object.keys(query.fields).length) {
+    throw new QueryError("Missing search term.");
+  }
+  return query;
+};
+
+const identifierQuery = (field: QueryField, value: string): SearchQuery => ({
+  text: [],
+  phrases: [],
+  fields: { [field]: value }
+});
+
+export const resolveSearchQuery = async (input: string): Promise<SearchQuery> => {
+  const term = input.trim();
+  const identifier = parseIdentifierUrl(term);
+  if (identifier && "field" in identifier) {
+    return identifierQuery(identifier.field, identifier.value);
+  }
+  if (identifier) {
+    const isbn = await fetchIdentifierIsbn(identifier).catch(() => null);
+    if (!isbn) {
+      throw new QueryError(`Could not find an ISBN for that ${identifier.label} link.`);
+    }
+    return identifierQuery("isbn", isbn);
+  }
+  if (isUrl(term)) {
+    throw new QueryError(
+      "Only Goodreads, Amazon, Audible, OpenLibrary and Google Books book links are supported."
+    );
+  }
+
+  const isbn = normalizeIsbn(term);
+  if (isbn) {
+    return identifierQuery("isbn", isbn);
+  }
+  if (looksLikeIsbn13(term)) {
+    throw new QueryError(`"${term}" looks like an ISBN-13 but its check digit is wrong.`);
+  }
+  return parseSearchQuery(term);
+};
+
+export const formatSearchQuery = (query: SearchQuery): string =>
+  [
+    ...queryFields
+      .filter((field) => query.fields[field])
+      .map((field) => `${field}:"${query.fields[field]}"`),
+    ...query.phrases.map((phrase) => `"${phrase}"`),
+    ...query.text
+  ]
+    .join(" ")
+    .toLowerCase();
+
+export const containsWords = (target: string, value: string): boolean => {
+  const words = normalizeText(target).split(" ");
+  return normalizeText(value)
+    .split(" ")
+    .filter(Boolean)
+    .every((word) => words.some((candidate) => candidate.startsWith(word)));
+};
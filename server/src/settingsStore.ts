@@ -1,29 +1,100 @@
+import crypto from "crypto";
 import fs from "fs";
 import path from "path";
 import { logger } from "./logger.js";
 
+export const instanceKinds = ["ebook", "audiobook", "other"] as const;
+
+export type InstanceKind = (typeof instanceKinds)[number];
+
 export type InstanceSettings = {
+  id: string;
+  label: string;
+  kind: InstanceKind;
   baseUrl: string;
   apiKey: string;
   rootFolderPath?: string;
   qualityProfileId?: number;
+  metadataProfileId?: number;
+  webhookSecret?: string;
 };
 
 export type InstanceSettingsInput = {
+  id?: string;
+  label?: string;
+  kind?: string;
   baseUrl?: string;
   apiKey?: string;
   rootFolderPath?: string;
-  qualityProfileId?: number;
+  qualityProfileId?: number | string;
+  metadataProfileId?: number | string;
+  webhookSecret?: string;
+};
+
+export const notificationEvents = [
+  "request.created",
+  "request.approved",
+  "request.rejected",
+  "request.imported",
+  "request.failed"
+] as const;
+
+export type NotificationEvent = (typeof notificationEvents)[number];
+
+export type NotificationChannelType = "webhook" | "discord" | "apprise" | "email";
+
+export type SmtpSettings = {
+  host: string;
+  port: number;
+  secure: boolean;
+  username?: string;
+  password?: string;
+  from: string;
 };
 
+export type NotificationChannel = {
+  id: string;
+  type: NotificationChannelType;
+  label: string;
+  enabled: boolean;
+  events: NotificationEvent[];
+  url?: string;
+  smtp?: SmtpSettings;
+};
+
+export type NotificationChannelInput = {
+  id?: string;
+  type?: string;
+  label?: string;
+  enabled?: boolean;
+  events?: string[];
+  url?: string;
+  smtp?: Partial<Omit<SmtpSettings, "port">> & { port?: number | string };
+};
+
+export const overrideFields = [
+  "rootFolderPath",
+  "qualityProfileId",
+  "metadataProfileId",
+  "tags"
+] as const;
+
+export type OverrideField = (typeof overrideFields)[number];
+
+export type InstanceSummary = Pick<InstanceSettings, "id" | "label" | "kind">;
+
 export type Settings = {
-  ebooks: InstanceSettings;
-  audio: InstanceSettings;
+  instances: InstanceSettings[];
+  requireApproval?: boolean;
+  requesterOverrides?: OverrideField[];
+  notificationChannels?: NotificationChannel[];
 };
 
 export type SettingsInput = {
-  ebooks: InstanceSettingsInput;
-  audio: InstanceSettingsInput;
+  instances?: InstanceSettingsInput[];
+  requireApproval?: boolean;
+  requesterOverrides?: string[];
+  notificationChannels?: NotificationChannelInput[];
 };
 
 export type SettingsState = {
@@ -70,25 +141,76 @@ const buildFromEnv = (): Settings | null => {
   }
 
   return {
-    ebooks: {
-      baseUrl: normalizeBaseUrl(ebooksUrl),
-      apiKey: ebooksKey,
-      rootFolderPath: readOptional(process.env.EBOOKS_ROOT_FOLDER) || undefined,
-      qualityProfileId: readOptional(process.env.EBOOKS_QUALITY_PROFILE_ID)
-        ? toNumber(process.env.EBOOKS_QUALITY_PROFILE_ID, 1)
-        : undefined
-    },
-    audio: {
-      baseUrl: normalizeBaseUrl(audioUrl),
-      apiKey: audioKey,
-      rootFolderPath: readOptional(process.env.AUDIO_ROOT_FOLDER) || undefined,
-      qualityProfileId: readOptional(process.env.AUDIO_QUALITY_PROFILE_ID)
-        ? toNumber(process.env.AUDIO_QUALITY_PROFILE_ID, 1)
-        : undefined
-    }
+    instances: [
+      {
+        id: "ebooks",
+        label: "Ebooks",
+        kind: "ebook",
+        baseUrl: normalizeBaseUrl(ebooksUrl),
+        apiKey: ebooksKey,
+        rootFolderPath: readOptional(process.env.EBOOKS_ROOT_FOLDER) || undefined,
+        qualityProfileId: readOptional(process.env.EBOOKS_QUALITY_PROFILE_ID)
+          ? toNumber(process.env.EBOOKS_QUALITY_PROFILE_ID, 1)
+          : undefined,
+        metadataProfileId: readOptional(process.env.EBOOKS_METADATA_PROFILE_ID)
+          ? toNumber(process.env.EBOOKS_METADATA_PROFILE_ID, 1)
+          : undefined,
+        webhookSecret: readOptional(process.env.EBOOKS_WEBHOOK_SECRET)
+      },
+      {
+        id: "audio",
+        label: "Audiobooks",
+        kind: "audiobook",
+        baseUrl: normalizeBaseUrl(audioUrl),
+        apiKey: audioKey,
+        rootFolderPath: readOptional(process.env.AUDIO_ROOT_FOLDER) || undefined,
+        qualityProfileId: readOptional(process.env.AUDIO_QUALITY_PROFILE_ID)
+          ? toNumber(process.env.AUDIO_QUALITY_PROFILE_ID, 1)
+          : undefined,
+        metadataProfileId: readOptional(process.env.AUDIO_METADATA_PROFILE_ID)
+          ? toNumber(process.env.AUDIO_METADATA_PROFILE_ID, 1)
+          : undefined,
+        webhookSecret: readOptional(process.env.AUDIO_WEBHOOK_SECRET)
+      }
+    ],
+    requireApproval: readOptional(process.env.REQUIRE_APPROVAL) === "true"
   };
 };
 
+type LegacySettings = Omit<Settings, "instances"> & {
+  instances?: InstanceSettings[];
+  ebooks?: Omit<InstanceSettings, "id" | "label" | "kind">;
+  audio?: Omit<InstanceSettings, "id" | "label" | "kind">;
+};
+
+// Files written before the instance registry stored exactly two instances under
+// "ebooks" and "audio". Their keys become the instance ids so recorded requests
+// and configured webhook URLs keep working.
+const migrateSettings = (raw: LegacySettings): Settings | null => {
+  if (Array.isArray(raw.instances)) {
+    return null;
+  }
+
+  const { ebooks, audio, ...rest } = raw;
+  const instances: InstanceSettings[] = [];
+  if (ebooks) {
+    instances.push({ id: "ebooks", label: "Ebooks", kind: "ebook", ...ebooks });
+  }
+  if (audio) {
+    instances.push({ id: "audio", label: "Audiobooks", kind: "audiobook", ...audio });
+  }
+  return { ...rest, instances };
+};
+
+const writeSettings = async (settings: Settings): Promise<void> => {
+  await fs.promises.mkdir(path.dirname(settingsPath), { recursive: true });
+  await fs.promises.writeFile(
+    settingsPath,
+    JSON.stringify(settings, null, 2),
+    "utf8"
+  );
+};
+
 const loadFromFile = (): Settings | null => {
   if (!fs.existsSync(settingsPath)) {
     return null;
@@ -96,40 +218,143 @@ const loadFromFile = (): Settings | null => {
 
   try {
     const raw = fs.readFileSync(settingsPath, "utf8");
-    const parsed = JSON.parse(raw) as Settings;
-    return parsed;
+    const parsed = JSON.parse(raw) as LegacySettings;
+    const migrated = migrateSettings(parsed);
+    if (migrated) {
+      void writeSettings(migrated)
+        .then(() => logger.info({ path: settingsPath }, "settings_migrated"))
+        .catch((error) => logger.error({ err: error }, "settings_migration_failed"));
+      return migrated;
+    }
+    return parsed as Settings;
   } catch (error) {
     logger.error({ err: error }, "settings_load_failed");
     return null;
   }
 };
 
-const validateInstance = (instance: InstanceSettings, label: string): void => {
+const validateInstance = (instance: InstanceSettings): void => {
   if (!instance.baseUrl?.trim()) {
-    throw new SettingsError(`${label} base URL is required.`);
+    throw new SettingsError(`${instance.label} base URL is required.`);
   }
   if (!instance.apiKey?.trim()) {
-    throw new SettingsError(`${label} API key is required.`);
+    throw new SettingsError(`${instance.label} API key is required.`);
   }
 };
 
-const normalizeSettings = (settings: SettingsInput): Settings => ({
-  ebooks: {
-    baseUrl: normalizeBaseUrl(settings.ebooks.baseUrl || ""),
-    apiKey: (settings.ebooks.apiKey || "").trim(),
-    rootFolderPath: settings.ebooks.rootFolderPath?.trim() || undefined,
-    qualityProfileId: Number.isFinite(Number(settings.ebooks.qualityProfileId))
-      ? Number(settings.ebooks.qualityProfileId)
-      : undefined
-  },
-  audio: {
-    baseUrl: normalizeBaseUrl(settings.audio.baseUrl || ""),
-    apiKey: (settings.audio.apiKey || "").trim(),
-    rootFolderPath: settings.audio.rootFolderPath?.trim() || undefined,
-    qualityProfileId: Number.isFinite(Number(settings.audio.qualityProfileId))
-      ? Number(settings.audio.qualityProfileId)
-      : undefined
+const readProfileId = (value: number | string | undefined): number | undefined => {
+  const parsed = Number(value);
+  return value !== "" && Number.isInteger(parsed) && parsed > 0 ? parsed : undefined;
+};
+
+const slugify = (value: string): string =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+
+const normalizeInstances = (
+  inputs: InstanceSettingsInput[]
+): InstanceSettings[] => {
+  const used = new Set<string>();
+
+  return inputs.map((input, index) => {
+    const kind = (instanceKinds as readonly string[]).includes(input.kind || "")
+      ? (input.kind as InstanceKind)
+      : "other";
+    const label = input.label?.trim() || `Instance ${index + 1}`;
+    const base = slugify(input.id || "") || slugify(label) || "instance";
+    let id = base;
+    for (let suffix = 2; used.has(id); suffix += 1) {
+      id = `${base}-${suffix}`;
+    }
+    used.add(id);
+
+    return {
+      id,
+      label,
+      kind,
+      baseUrl: normalizeBaseUrl(input.baseUrl?.trim() || ""),
+      apiKey: (input.apiKey || "").trim(),
+      rootFolderPath: input.rootFolderPath?.trim() || undefined,
+      qualityProfileId: readProfileId(input.qualityProfileId),
+      metadataProfileId: readProfileId(input.metadataProfileId),
+      webhookSecret: input.webhookSecret?.trim() || undefined
+    };
+  });
+};
+
+export const findInstance = (
+  settings: Settings,
+  id: string
+): InstanceSettings | undefined =>
+  settings.instances.find((instance) => instance.id === id);
+
+export const summarizeInstances = (settings: Settings): InstanceSummary[] =>
+  settings.instances.map(({ id, label, kind }) => ({ id, label, kind }));
+
+const channelTypes: NotificationChannelType[] = [
+  "webhook",
+  "discord",
+  "apprise",
+  "email"
+];
+
+export const normalizeNotificationChannel = (
+  input: NotificationChannelInput
+): NotificationChannel => {
+  const type = input.type as NotificationChannelType;
+  if (!channelTypes.includes(type)) {
+    throw new SettingsError("Notification channel type is not supported.");
   }
+
+  const label = input.label?.trim() || type;
+  const channel: NotificationChannel = {
+    id: input.id?.trim() || crypto.randomUUID(),
+    type,
+    label,
+    enabled: input.enabled !== false,
+    events: (input.events || []).filter((event): event is NotificationEvent =>
+      (notificationEvents as readonly string[]).includes(event)
+    )
+  };
+
+  if (type === "email") {
+    const host = input.smtp?.host?.trim();
+    const from = input.smtp?.from?.trim();
+    if (!host || !from) {
+      throw new SettingsError(`${label}: SMTP host and from address are required.`);
+    }
+    const port = Number(input.smtp?.port);
+    channel.smtp = {
+      host,
+      port: Number.isFinite(port) && port > 0 ? port : 587,
+      secure: Boolean(input.smtp?.secure),
+      username: input.smtp?.username?.trim() || undefined,
+      password: input.smtp?.password || undefined,
+      from
+    };
+    return channel;
+  }
+
+  const url = input.url?.trim();
+  if (!url || !/^https?:\/\//i.test(url)) {
+    throw new SettingsError(`${label}: an http(s) URL is required.`);
+  }
+  channel.url = url;
+  return channel;
+};
+
+const normalizeSettings = (settings: SettingsInput): Settings => ({
+  instances: normalizeInstances(settings.instances || []),
+  requireApproval: Boolean(settings.requireApproval),
+  requesterOverrides: (settings.requesterOverrides || []).filter(
+    (field): field is OverrideField =>
+      (overrideFields as readonly string[]).includes(field)
+  ),
+  notificationChannels: (settings.notificationChannels || []).map(
+    normalizeNotificationChannel
+  )
 });
 
 export const getSettings = (): SettingsState => {
@@ -154,14 +379,11 @@ export const getSettings = (): SettingsState => {
 
 export const saveSettings = async (settings: SettingsInput): Promise<void> => {
   const normalized = normalizeSettings(settings);
-  validateInstance(normalized.ebooks, "Ebooks");
-  validateInstance(normalized.audio, "Audiobooks");
+  if (!normalized.instances.length) {
+    throw new SettingsError("Add at least one Readarr instance.");
+  }
+  normalized.instances.forEach(validateInstance);
 
-  await fs.promises.mkdir(path.dirname(settingsPath), { recursive: true });
-  await fs.promises.writeFile(
-    settingsPath,
-    JSON.stringify(normalized, null, 2),
-    "utf8"
-  );
+  await writeSettings(normalized);
   cached = normalized;
 };
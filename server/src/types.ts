@@ -1,3 +1,25 @@
+export type ReadarrImage = {
+  coverType?: string;
+  url?: string;
+  remoteUrl?: string;
+};
+
+export type ReadarrEdition = {
+  id?: number;
+  bookId?: number;
+  foreignEditionId?: string;
+  title?: string;
+  isbn13?: string;
+  asin?: string;
+  format?: string;
+  isEbook?: boolean;
+  publisher?: string;
+  language?: string;
+  pageCount?: number;
+  releaseDate?: string;
+  monitored?: boolean;
+};
+
 export type ReadarrLookupBook = {
   title?: string;
   authorTitle?: string;
@@ -7,6 +29,16 @@ export type ReadarrLookupBook = {
   isbn13?: string | number;
   isbn?: string | number;
   asin?: string;
+  seriesTitle?: string;
+  releaseDate?: string;
+  overview?: string;
+  pageCount?: number;
+  images?: ReadarrImage[];
+  ratings?: {
+    value?: number;
+    votes?: number;
+  };
+  editions?: ReadarrEdition[];
   author?: {
     name?: string;
   };
@@ -23,10 +55,22 @@ export type ReadarrBook = {
   isbn13?: string | number;
   isbn?: string | number;
   asin?: string;
+  seriesTitle?: string;
+  releaseDate?: string;
+  overview?: string;
+  pageCount?: number;
+  images?: ReadarrImage[];
+  ratings?: {
+    value?: number;
+    votes?: number;
+  };
+  editions?: ReadarrEdition[];
+  authorId?: number;
   author?: {
     name?: string;
   };
   monitored?: boolean;
+  lastSearchTime?: string;
   bookFileId?: number;
   bookFile?: {
     id?: number;
@@ -37,6 +81,82 @@ export type ReadarrBook = {
   };
 };
 
+export type ReadarrAuthor = {
+  id?: number;
+  authorName?: string;
+  name?: string;
+  foreignAuthorId?: string | number;
+  authorId?: number;
+  overview?: string;
+  images?: ReadarrImage[];
+  monitored?: boolean;
+  monitorNewItems?: string;
+  statistics?: {
+    bookCount?: number;
+  };
+  books?: ReadarrLookupBook[];
+  [key: string]: unknown;
+};
+
+export type ReadarrQueueItem = {
+  id?: number;
+  bookId?: number;
+  title?: string;
+  size?: number;
+  sizeleft?: number;
+  status?: string;
+  trackedDownloadStatus?: string;
+  trackedDownloadState?: string;
+  errorMessage?: string;
+  statusMessages?: {
+    title?: string;
+    messages?: string[];
+  }[];
+};
+
+export type ReadarrHistoryRecord = {
+  id?: number;
+  bookId?: number;
+  eventType?: string;
+  date?: string;
+  sourceTitle?: string;
+  data?: Record<string, string | undefined>;
+};
+
+export type RequestOverrides = {
+  rootFolderPath?: string;
+  qualityProfileId?: number;
+  metadataProfileId?: number;
+  tags?: number[];
+};
+
+export type RequestOutcome = {
+  action: "added" | "monitored";
+  bookId?: number;
+  lookup?: "resolved" | "original";
+  previouslyMonitored?: boolean;
+  putFallback: boolean;
+  overridesApplied: boolean;
+  searchTriggered: boolean;
+};
+
+export type RequestWithdrawal = {
+  book: "deleted" | "unmonitored" | "unchanged";
+  downloadsRemoved: number;
+};
+
+export type FollowMonitor = "none" | "future" | "missing" | "all";
+
+export type InstanceStatus = {
+  available: boolean;
+  alreadyAdded: boolean;
+  offline?: boolean;
+  existingId?: number;
+  monitored?: boolean;
+  hasFile?: boolean;
+  lookup?: ReadarrLookupBook;
+};
+
 export type SearchItem = {
   key: string;
   title: string;
@@ -44,20 +164,83 @@ export type SearchItem = {
   isbn13?: string;
   foreignBookId?: string;
   goodreadsId?: string;
-  ebook: {
-    available: boolean;
-    alreadyAdded: boolean;
-    existingId?: number;
-    monitored?: boolean;
-    hasFile?: boolean;
-    lookup?: ReadarrLookupBook;
-  };
-  audio: {
-    available: boolean;
-    alreadyAdded: boolean;
-    existingId?: number;
-    monitored?: boolean;
-    hasFile?: boolean;
-    lookup?: ReadarrLookupBook;
+  coverUrl?: string;
+  releaseDate?: string;
+  year?: number;
+  series?: string;
+  seriesPosition?: string;
+  overview?: string;
+  pageCount?: number;
+  rating?: {
+    value: number;
+    votes: number;
   };
+  instances: Record<string, InstanceStatus>;
+};
+
+export type SeriesEntry = SearchItem & {
+  position?: string;
+};
+
+export type AuthorStatus = {
+  available: boolean;
+  offline?: boolean;
+  existingId?: number;
+  monitored?: boolean;
+  monitorNewItems?: string;
+  lookup?: Omit<ReadarrAuthor, "books">;
+};
+
+export type AuthorItem = {
+  key: string;
+  name: string;
+  foreignAuthorId?: string;
+  overview?: string;
+  imageUrl?: string;
+  bookCount?: number;
+  instances: Record<string, AuthorStatus>;
+};
+
+export type ImportCandidate = {
+  key: string;
+  title: string;
+  author: string;
+  year?: number;
+  lookup: ReadarrLookupBook;
+};
+
+export type ImportMatch = {
+  status: "matched" | "ambiguous" | "not_found" | "owned" | "error";
+  matchedBy?: "library" | "isbn" | "goodreads" | "title";
+  key?: string;
+  existingId?: number;
+  lookup?: ReadarrLookupBook;
+  candidates?: ImportCandidate[];
+  error?: string;
+};
+
+export type BookEdition = {
+  id: string;
+  title: string;
+  format?: string;
+  isEbook?: boolean;
+  isbn13?: string;
+  asin?: string;
+  publisher?: string;
+  language?: string;
+  pageCount?: number;
+  releaseDate?: string;
+  monitored?: boolean;
+};
+
+export type InstanceBookDetail = InstanceStatus & {
+  editions: BookEdition[];
+  fileCount?: number;
+  sizeOnDisk?: number;
+  lastSearchTime?: string;
+};
+
+export type BookDetail = Omit<SearchItem, "instances"> & {
+  seriesLinks: { title: string; position?: string }[];
+  instances: Record<string, InstanceBookDetail>;
 };
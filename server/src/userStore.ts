@@ -0,0 +1,314 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { promisify } from "util";
+import { config } from "./config.js";
+import { logger } from "./logger.js";
+import type { NotificationEvent } from "./settingsStore.js";
+import { notificationEvents } from "./settingsStore.js";
+
+export type UserRole = "admin" | "requester";
+
+export type NotificationPreferences = {
+  events: NotificationEvent[];
+  email?: string;
+};
+
+export type User = {
+  id: string;
+  username: string;
+  role: UserRole;
+  autoApprove?: boolean;
+  notifications?: NotificationPreferences;
+  passwordHash: string;
+  createdAt: string;
+};
+
+export type PublicUser = Omit<User, "passwordHash">;
+
+export type UserInput = {
+  username?: string;
+  password?: string;
+  role?: UserRole;
+  autoApprove?: boolean;
+};
+
+type Session = {
+  tokenHash: string;
+  userId: string;
+  expiresAt: string;
+};
+
+type UserData = {
+  users: User[];
+  sessions: Session[];
+};
+
+export class UserError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const scrypt = promisify(crypto.scrypt) as (
+  password: string,
+  salt: string,
+  keylen: number
+) => Promise<Buffer>;
+
+const baseDir = process.env.INIT_CWD || process.cwd();
+const usersPath = path.resolve(baseDir, "data", "users.json");
+const roles: UserRole[] = ["admin", "requester"];
+let cached: UserData | null = null;
+
+const loadFromFile = (): UserData => {
+  if (!fs.existsSync(usersPath)) {
+    return { users: [], sessions: [] };
+  }
+
+  try {
+    const raw = fs.readFileSync(usersPath, "utf8");
+    const parsed = JSON.parse(raw) as Partial<UserData>;
+    return {
+      users: parsed.users || [],
+      sessions: parsed.sessions || []
+    };
+  } catch (error) {
+    logger.error({ err: error }, "users_load_failed");
+    return { users: [], sessions: [] };
+  }
+};
+
+const getData = (): UserData => {
+  if (!cached) {
+    cached = loadFromFile();
+  }
+  return cached;
+};
+
+const persist = async (): Promise<void> => {
+  const data = getData();
+  await fs.promises.mkdir(path.dirname(usersPath), { recursive: true });
+  await fs.promises.writeFile(usersPath, JSON.stringify(data, null, 2), "utf8");
+};
+
+const toPublic = (user: User): PublicUser => {
+  const { passwordHash: _passwordHash, ...rest } = user;
+  return rest;
+};
+
+const hashToken = (token: string): string =>
+  crypto.createHash("sha256").update(token).digest("hex");
+
+const hashPassword = async (password: string): Promise<string> => {
+  const salt = crypto.randomBytes(16).toString("hex");
+  const derived = await scrypt(password, salt, 64);
+  return `scrypt$${salt}$${derived.toString("hex")}`;
+};
+
+const verifyPassword = async (
+  password: string,
+  stored: string
+): Promise<boolean> => {
+  const [scheme, salt, hash] = stored.split("$");
+  if (scheme !== "scrypt" || !salt || !hash) {
+    return false;
+  }
+  const expected = Buffer.from(hash, "hex");
+  const derived = await scrypt(password, salt, expected.length);
+  return crypto.timingSafeEqual(expected, derived);
+};
+
+const normalizeUsername = (value: string | undefined): string =>
+  String(value ?? "").trim().toLowerCase();
+
+const validatePassword = (password: string | undefined): string => {
+  if (!password || password.length < 8) {
+    throw new UserError("Password must be at least 8 characters.");
+  }
+  return password;
+};
+
+const validateRole = (role: UserRole | undefined): UserRole => {
+  if (!role || !roles.includes(role)) {
+    throw new UserError("Role must be admin or requester.");
+  }
+  return role;
+};
+
+const adminCount = (users: User[]): number =>
+  users.filter((user) => user.role === "admin").length;
+
+export const hasUsers = (): boolean => getData().users.length > 0;
+
+export const listUsers = (): PublicUser[] =>
+  getData().users.map(toPublic);
+
+export const getUser = (id: string): PublicUser | undefined => {
+  const user = getData().users.find((entry) => entry.id === id);
+  return user ? toPublic(user) : undefined;
+};
+
+export const createUser = async (input: UserInput): Promise<PublicUser> => {
+  const data = getData();
+  const username = normalizeUsername(input.username);
+  if (!username) {
+    throw new UserError("Username is required.");
+  }
+  if (data.users.some((user) => user.username === username)) {
+    throw new UserError("That username is already taken.", 409);
+  }
+
+  const user: User = {
+    id: crypto.randomUUID(),
+    username,
+    role: validateRole(input.role),
+    autoApprove: Boolean(input.autoApprove),
+    passwordHash: await hashPassword(validatePassword(input.password)),
+    createdAt: new Date().toISOString()
+  };
+
+  data.users.push(user);
+  await persist();
+  return toPublic(user);
+};
+
+export const updateUser = async (
+  id: string,
+  input: UserInput
+): Promise<PublicUser> => {
+  const data = getData();
+  const user = data.users.find((entry) => entry.id === id);
+  if (!user) {
+    throw new UserError("User not found.", 404);
+  }
+
+  if (input.role !== undefined) {
+    const role = validateRole(input.role);
+    if (user.role === "admin" && role !== "admin" && adminCount(data.users) === 1) {
+      throw new UserError("At least one admin is required.");
+    }
+    user.role = role;
+  }
+
+  if (input.autoApprove !== undefined) {
+    user.autoApprove = Boolean(input.autoApprove);
+  }
+
+  if (input.password !== undefined) {
+    user.passwordHash = await hashPassword(validatePassword(input.password));
+    data.sessions = data.sessions.filter((session) => session.userId !== id);
+  }
+
+  await persist();
+  return toPublic(user);
+};
+
+export const defaultNotificationEvents = (role: UserRole): NotificationEvent[] =>
+  role === "admin"
+    ? [...notificationEvents]
+    : notificationEvents.filter((event) => event !== "request.created");
+
+export const updateNotificationPreferences = async (
+  id: string,
+  input: { events?: string[]; email?: string }
+): Promise<PublicUser> => {
+  const user = getData().users.find((entry) => entry.id === id);
+  if (!user) {
+    throw new UserError("User not found.", 404);
+  }
+
+  const email = input.email?.trim() || undefined;
+  if (email && !/^[^\s@]+@[^\s@]+$/.test(email)) {
+    throw new UserError("Enter a valid email address.");
+  }
+
+  user.notifications = {
+    events: (input.events || []).filter((event): event is NotificationEvent =>
+      (notificationEvents as readonly string[]).includes(event)
+    ),
+    email
+  };
+  await persist();
+  return toPublic(user);
+};
+
+export const deleteUser = async (id: string): Promise<void> => {
+  const data = getData();
+  const user = data.users.find((entry) => entry.id === id);
+  if (!user) {
+    throw new UserError("User not found.", 404);
+  }
+  if (user.role === "admin" && adminCount(data.users) === 1) {
+    throw new UserError("At least one admin is required.");
+  }
+
+  data.users = data.users.filter((entry) => entry.id !== id);
+  data.sessions = data.sessions.filter((session) => session.userId !== id);
+  await persist();
+};
+
+export const verifyCredentials = async (
+  username: string,
+  password: string
+): Promise<PublicUser | null> => {
+  const normalized = normalizeUsername(username);
+  const user = getData().users.find((entry) => entry.username === normalized);
+  if (!user || !(await verifyPassword(password, user.passwordHash))) {
+    return null;
+  }
+  return toPublic(user);
+};
+
+export const createSession = async (userId: string): Promise<string> => {
+  const data = getData();
+  const now = Date.now();
+  const token = crypto.randomBytes(32).toString("base64url");
+  const expiresAt = new Date(
+    now + config.sessionTtlHours * 60 * 60 * 1000
+  ).toISOString();
+
+  data.sessions = data.sessions.filter(
+    (session) => Date.parse(session.expiresAt) > now
+  );
+  data.sessions.push({ tokenHash: hashToken(token), userId, expiresAt });
+  await persist();
+  return token;
+};
+
+export const getSessionUser = (token: string): PublicUser | null => {
+  if (!token) {
+    return null;
+  }
+  const data = getData();
+  const tokenHash = hashToken(token);
+  const session = data.sessions.find((entry) => entry.tokenHash === tokenHash);
+  if (!session || Date.parse(session.expiresAt) <= Date.now()) {
+    return null;
+  }
+  const user = data.users.find((entry) => entry.id === session.userId);
+  return user ? toPublic(user) : null;
+};
+
+export const deleteSession = async (token: string): Promise<void> => {
+  const data = getData();
+  const tokenHash = hashToken(token);
+  data.sessions = data.sessions.filter((session) => session.tokenHash !== tokenHash);
+  await persist();
+};
+
+export const ensureBootstrapAdmin = async (): Promise<void> => {
+  if (hasUsers() || !config.adminPassword) {
+    return;
+  }
+
+  const user = await createUser({
+    username: config.adminUsername,
+    password: config.adminPassword,
+    role: "admin"
+  });
+  logger.info({ username: user.username }, "bootstrap_admin_created");
+};